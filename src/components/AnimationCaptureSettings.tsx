@@ -0,0 +1,102 @@
+import React from "react";
+import type { AnimationFormat, AnimationSettings } from "../types/Animation";
+import { ANIMATION_CAPTURE_OPTIONS } from "../constants";
+
+interface AnimationCaptureSettingsProps {
+  settings: AnimationSettings;
+  onChange: (settings: AnimationSettings) => void;
+  supportedFormats: AnimationFormat[];
+  className?: string;
+}
+
+const FORMAT_LABELS: Record<AnimationFormat, string> = {
+  gif: "GIF",
+  apng: "APNG",
+};
+
+const AnimationCaptureSettings: React.FC<AnimationCaptureSettingsProps> = ({
+  settings,
+  onChange,
+  supportedFormats,
+  className = "",
+}) => {
+  const duration = settings.frameCount / settings.frameRate;
+
+  return (
+    <div
+      className={`bg-white bg-opacity-90 rounded-lg px-3 py-2 shadow-lg flex flex-wrap items-center gap-3 text-xs ${className}`}
+    >
+      <label className="flex items-center gap-1">
+        <span className="text-gray-600">Format</span>
+        <select
+          value={settings.format}
+          onChange={(e) =>
+            onChange({ ...settings, format: e.target.value as AnimationFormat })
+          }
+          className="border rounded px-1 py-0.5"
+        >
+          {supportedFormats.map((format) => (
+            <option key={format} value={format}>
+              {FORMAT_LABELS[format]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-1">
+        <span className="text-gray-600">Size</span>
+        <select
+          value={settings.width}
+          onChange={(e) =>
+            onChange({ ...settings, width: parseInt(e.target.value) })
+          }
+          className="border rounded px-1 py-0.5"
+        >
+          {ANIMATION_CAPTURE_OPTIONS.widths.map((width) => (
+            <option key={width} value={width}>
+              {width}px
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-1">
+        <span className="text-gray-600">Frames</span>
+        <select
+          value={settings.frameCount}
+          onChange={(e) =>
+            onChange({ ...settings, frameCount: parseInt(e.target.value) })
+          }
+          className="border rounded px-1 py-0.5"
+        >
+          {ANIMATION_CAPTURE_OPTIONS.frameCounts.map((count) => (
+            <option key={count} value={count}>
+              {count}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-1">
+        <span className="text-gray-600">FPS</span>
+        <select
+          value={settings.frameRate}
+          onChange={(e) =>
+            onChange({ ...settings, frameRate: parseInt(e.target.value) })
+          }
+          className="border rounded px-1 py-0.5"
+        >
+          {ANIMATION_CAPTURE_OPTIONS.frameRates.map((rate) => (
+            <option key={rate} value={rate}>
+              {rate}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <span className="text-gray-500">{duration.toFixed(1)}s loop</span>
+    </div>
+  );
+};
+
+export default AnimationCaptureSettings;
@@ -1,35 +1,296 @@
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
 import WebcamView from "./WebcamView";
 import Filter3DOverlay from "./Filter3DOverlay";
+import Filter2DOverlay from "./Filter2DOverlay";
 import FilterSelector from "./FilterSelector";
 import ControlPanel from "./ControlPanel";
 import FilterCalibration from "./FilterCalibration";
+import CalibrationProfilePicker from "./CalibrationProfilePicker";
+import ProjectionControls from "./ProjectionControls";
+import AnimationCaptureSettings from "./AnimationCaptureSettings";
+import PhotoCaptureSettings from "./PhotoCaptureSettings";
+import GalleryDrawer from "./GalleryDrawer";
+import MediaFileView from "./MediaFileView";
+import OutputStreamPanel from "./OutputStreamPanel";
 import ErrorFallback from "./ErrorFallback";
 import { useFaceDetection } from "../hooks/useFaceDetection";
-import { useScreenshot } from "../hooks/useScreenshot";
+import {
+  getSupportedPhotoFormats,
+  useScreenshot,
+} from "../hooks/useScreenshot";
+import {
+  getSupportedRecordingFormats,
+  useRecorder,
+} from "../hooks/useRecorder";
+import { useDetectionSmoother } from "../hooks/useDetectionSmoother";
+import { usePerformanceGovernor } from "../hooks/usePerformanceGovernor";
+import { useFocalLengthEstimator } from "../hooks/useFocalLengthEstimator";
+import { useAnimationCapture } from "../hooks/useAnimationCapture";
+import { useOfflineRender } from "../hooks/useOfflineRender";
+import { useOutputStream } from "../hooks/useOutputStream";
+import { useCalibration } from "../hooks/useCalibration";
+import { useUndoHistory } from "../hooks/useUndoHistory";
+import { useCaptureTimer } from "../hooks/useCaptureTimer";
+import { useGallery } from "../hooks/useGallery";
+import { usePersistentState } from "../hooks/usePersistentState";
+import { useRegisteredFilters } from "../hooks/useRegisteredFilters";
+import { useFilterManifests } from "../hooks/useFilterManifests";
 import { checkBrowserCompatibility } from "../utils/browserCompatibility";
-import { FILTERS } from "../constants";
+import { resolveFocalLength } from "../utils/cameraProjection";
+import { downloadBlob } from "../utils/download";
+import { getFrameSize, isFrameReady } from "../utils/frameSource";
+import {
+  CAPTURE_TIMER_OPTIONS,
+  DEFAULT_ANIMATION_SETTINGS,
+  DEFAULT_CAMERA_SETTINGS,
+  DEFAULT_CAPTURE_TIMER,
+  DEFAULT_OUTPUT_STREAM_SETTINGS,
+  DEFAULT_PHOTO_SETTINGS,
+  DEFAULT_PROJECTION_SETTINGS,
+  MAX_FACES,
+  MAX_FACES_LIMIT,
+  PHOTO_FORMATS,
+  RECORDING_OPTIONS,
+  STORAGE_KEYS,
+} from "../constants";
 import { Filter } from "../types/Filter";
+import type { FilterAdjustment, ModelLoadStatus } from "../types/Filter";
+import type { ProjectionSettings } from "../types/Projection";
+import type {
+  OfflineRender,
+  Recording,
+  RecordingFormat,
+} from "../types/Recording";
+import type { NewCapture } from "../types/Gallery";
+import type { FrameSource, InputSourceKind } from "../types/InputSource";
+import type { OutputStreamSettings } from "../types/OutputStream";
+import type { CameraSettings } from "../types/Camera";
+import type { CalibrationSettings } from "../types/Calibration";
+import type {
+  CaptureTimerSettings,
+  OverlayRenderer,
+  PhotoSettings,
+} from "../types/Capture";
+import type {
+  AnimationCapture,
+  AnimationSettings,
+  CaptureMode,
+} from "../types/Animation";
 import "../App.css";
 
+// What the filters are applied to: the camera unless a file was opened
+const getSourceKind = (file: File | null): InputSourceKind => {
+  if (!file) return "camera";
+  return file.type.startsWith("video/") ? "video" : "image";
+};
+
 const App: React.FC = () => {
-  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(
-    null
-  );
+  // Camera video, or the uploaded photo or video shown in its place
+  const [sourceElement, setSourceElement] = useState<FrameSource | null>(null);
+  const [mediaFile, setMediaFile] = useState<File | null>(null);
+  const sourceKind = getSourceKind(mediaFile);
   const [isCompatible, setIsCompatible] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
   const [selectedFilters, setSelectedFilters] = useState<Filter[]>([]);
   const [renderMode, setRenderMode] = useState<"2d" | "3d">("3d");
   const [isCalibrationOpen, setIsCalibrationOpen] = useState(false);
+  const [editingFilterId, setEditingFilterId] = useState<string | null>(null);
   const [debugMode, setDebugMode] = useState(false);
-  const [positionAdjustments, setPositionAdjustments] = useState<
-    Record<string, any>
+  const [showOccluder, setShowOccluder] = useState(false);
+  // Camera choice, and the camera that is actually streaming
+  const [cameraSettings, setCameraSettings] =
+    usePersistentState<CameraSettings>(
+      STORAGE_KEYS.camera,
+      DEFAULT_CAMERA_SETTINGS
+    );
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+
+  // Calibration profiles with mirroring, saved between visits
+  const {
+    calibration,
+    setAdjustment,
+    setVideoMirrored,
+    setCalibration,
+    importCalibration,
+    exportCalibration,
+    profiles: calibrationProfiles,
+    activeProfile,
+    defaultsByDevice,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    duplicateProfile,
+    deleteProfile,
+    setProfileCamera,
+    setDefaultForDevice,
+  } = useCalibration(sourceKind === "camera" ? activeDeviceId : null);
+  const { positionAdjustments, isVideoMirrored } = calibration;
+  // Only the camera is shown mirrored, files appear as they were taken
+  const isSourceMirrored = sourceKind === "camera" && isVideoMirrored;
+  const [isWebGLSupported, setIsWebGLSupported] = useState(true);
+  const [maxFaces, setMaxFaces] = useState(MAX_FACES);
+  const [renderedFaceCount, setRenderedFaceCount] = useState(0);
+  const [modelStatus, setModelStatus] = useState<
+    Record<string, ModelLoadStatus>
   >({});
-  const [isVideoMirrored, setIsVideoMirrored] = useState(true);
+  const [projectionSettings, setProjectionSettings] =
+    useState<ProjectionSettings>(DEFAULT_PROJECTION_SETTINGS);
+
+  // Calibration and filter choice edits can be undone
+  const editSnapshot = useMemo(
+    () => ({ calibration, selectedFilters }),
+    [calibration, selectedFilters]
+  );
+  const restoreEdit = useCallback(
+    (snapshot: {
+      calibration: CalibrationSettings;
+      selectedFilters: Filter[];
+    }) => {
+      setCalibration(snapshot.calibration);
+      setSelectedFilters(snapshot.selectedFilters);
+    },
+    [setCalibration]
+  );
+  const {
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    record: recordEdit,
+    beginGesture: beginEditGesture,
+    endGesture: endEditGesture,
+    clear: clearEditHistory,
+  } = useUndoHistory(editSnapshot, restoreEdit);
+
+  // Undo steps belong to the profile they were made in
+  useEffect(() => {
+    clearEditHistory();
+  }, [activeProfile.id, clearEditHistory]);
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z redoes, except while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+
+      const target = e.target as HTMLElement;
+      const isTyping =
+        target.isContentEditable ||
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLInputElement &&
+          !["range", "checkbox"].includes(target.type));
+      if (isTyping) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const handleAdjustmentChange = useCallback(
+    (filterId: string, adjustment: FilterAdjustment) => {
+      recordEdit();
+      setAdjustment(filterId, adjustment);
+    },
+    [recordEdit, setAdjustment]
+  );
+
+  const handleMirroredChange = useCallback(
+    (mirrored: boolean) => {
+      recordEdit();
+      setVideoMirrored(mirrored);
+    },
+    [recordEdit, setVideoMirrored]
+  );
+
+  const filters = useRegisteredFilters();
+  const { importManifestFile } = useFilterManifests();
 
   const mainContainerRef = useRef<HTMLDivElement>(null);
   const filter3DCanvasRef = useRef<HTMLCanvasElement>(null);
+  const filter2DCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRendererRef = useRef<OverlayRenderer>(null);
+
+  // Captures are kept in the gallery, and downloaded too if the user wants
+  const gallery = useGallery();
+  const { addCapture, deleteCaptures, downloadCaptures, shareCapture } =
+    gallery;
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [autoDownload, setAutoDownload] = usePersistentState(
+    STORAGE_KEYS.autoDownload,
+    false
+  );
+
+  const storeCapture = useCallback(
+    async (capture: Omit<NewCapture, "filterIds" | "calibration">) => {
+      const filename = `ar-face-filter-${Date.now()}.${capture.extension}`;
+      try {
+        await addCapture({
+          ...capture,
+          filterIds: selectedFilters.map((filter) => filter.id),
+          calibration: Object.fromEntries(
+            selectedFilters
+              .filter((filter) => positionAdjustments[filter.id])
+              .map((filter) => [filter.id, positionAdjustments[filter.id]])
+          ),
+        });
+        if (autoDownload) downloadBlob(capture.blob, filename);
+      } catch (error) {
+        // Don't lose the capture if the gallery can't take it
+        console.error("Could not add capture to gallery:", error);
+        downloadBlob(capture.blob, filename);
+      }
+    },
+    [addCapture, autoDownload, selectedFilters, positionAdjustments]
+  );
+
+  // Uploaded videos rendered frame by frame
+  const handleOfflineRenderComplete = useCallback(
+    (render: OfflineRender) => {
+      storeCapture({
+        kind: "video",
+        blob: render.blob,
+        extension: "webm",
+        duration: render.duration,
+      });
+    },
+    [storeCapture]
+  );
+
+  const handleOfflineRenderError = useCallback((error: Error) => {
+    alert(`Video render failed: ${error.message}`);
+  }, []);
+
+  const {
+    phase: offlineRenderPhase,
+    progress: offlineRenderProgress,
+    isSupported: isOfflineRenderSupported,
+    renderVideo,
+    cancelRender,
+  } = useOfflineRender({
+    onRenderComplete: handleOfflineRenderComplete,
+    onError: handleOfflineRenderError,
+  });
+
+  // Adapt detection and rendering cost to the device
+  const {
+    tier: performanceTier,
+    stats: performanceStats,
+    pixelRatio,
+    recordDetection,
+  } = usePerformanceGovernor();
 
   // Initialize face detection
   const {
@@ -37,15 +298,93 @@ const App: React.FC = () => {
     isModelLoading,
     detections,
     error: detectionError,
+    detectFrame,
   } = useFaceDetection({
-    enabled: true,
-    videoElement,
+    // The offline render runs its own detection on every frame
+    enabled: offlineRenderPhase === "idle",
+    source: sourceElement,
+    maxFaces: Math.min(maxFaces, performanceTier.maxFaces),
+    detectionFrequency: performanceTier.detectionFrequency,
+    inputSize: performanceTier.inputSize,
+    onDetectionTiming: recordDetection,
   });
 
+  // Smooth and interpolate detections between detection runs
+  const detectionSmoother = useDetectionSmoother(detections);
+
+  // Estimate the webcam focal length on request
+  const {
+    estimatedFocalLength,
+    isEstimating: isEstimatingFocalLength,
+    progress: focalLengthProgress,
+    startEstimation: startFocalLengthEstimation,
+    cancelEstimation: cancelFocalLengthEstimation,
+  } = useFocalLengthEstimator(detections, sourceElement);
+
+  // Switch to a fresh estimate as soon as it is ready
+  useEffect(() => {
+    if (estimatedFocalLength) {
+      setProjectionSettings((prev) => ({
+        ...prev,
+        focalLengthSource: "estimated",
+      }));
+    }
+  }, [estimatedFocalLength]);
+
+  // Focal length handed to the 3D overlay, undefined means "from resolution"
+  const focalLength = {
+    resolution: undefined,
+    manual: projectionSettings.manualFocalLength,
+    estimated: estimatedFocalLength ?? undefined,
+  }[projectionSettings.focalLengthSource];
+
+  const handleGalleryDelete = useCallback(
+    (ids: string[]) => {
+      deleteCaptures(ids).catch((error) =>
+        alert(`Delete failed: ${error.message}`)
+      );
+    },
+    [deleteCaptures]
+  );
+
+  const handleGalleryDownload = useCallback(
+    (ids: string[]) => {
+      downloadCaptures(ids).catch((error) =>
+        alert(`Download failed: ${error.message}`)
+      );
+    },
+    [downloadCaptures]
+  );
+
+  const handleGalleryShare = useCallback(
+    (id: string) => {
+      shareCapture(id).catch((error) =>
+        alert(`Share failed: ${error.message}`)
+      );
+    },
+    [shareCapture]
+  );
+
+  // Photo format, size and watermark
+  const [photoSettings, setPhotoSettings] = usePersistentState<PhotoSettings>(
+    STORAGE_KEYS.photoSettings,
+    DEFAULT_PHOTO_SETTINGS
+  );
+  const [photoFormats] = useState(getSupportedPhotoFormats);
+  const [isPhotoSettingsOpen, setIsPhotoSettingsOpen] = useState(false);
+  // A saved format this browser can't encode falls back to JPEG
+  const photoFormat = photoFormats.includes(photoSettings.format)
+    ? photoSettings.format
+    : "jpeg";
+
   // Initialize screenshot functionality
   const { takeScreenshot, setElementRef } = useScreenshot({
     filename: "ar-face-filter-3d",
-    onScreenshotTaken: (dataUrl) => {
+    format: photoFormat,
+    resolution: photoSettings.resolution,
+    filterLayerOnly: photoSettings.filterLayerOnly,
+    watermark: photoSettings.watermark,
+    onScreenshotTaken: (_dataUrl, blob) => {
       console.log("📸 3D Screenshot taken successfully");
 
       // Show flash effect
@@ -56,13 +395,11 @@ const App: React.FC = () => {
         }, 300);
       }
 
-      // Download the image
-      const link = document.createElement("a");
-      link.href = dataUrl;
-      link.download = `ar-face-filter-3d-${Date.now()}.jpg`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      storeCapture({
+        kind: "photo",
+        blob,
+        extension: PHOTO_FORMATS[photoFormat].extension,
+      });
     },
     onError: (error) => {
       console.error("Screenshot error:", error);
@@ -70,6 +407,76 @@ const App: React.FC = () => {
     },
   });
 
+  // Video recording of the composited output
+  const [recordingFormat, setRecordingFormat] = useState<RecordingFormat>(
+    () => getSupportedRecordingFormats()[0] ?? "webm"
+  );
+
+  const handleRecordingComplete = useCallback(
+    (recording: Recording) => {
+      storeCapture({
+        kind: "video",
+        blob: recording.blob,
+        extension: recording.format,
+        duration: recording.duration,
+      });
+    },
+    [storeCapture]
+  );
+
+  const handleRecordingError = useCallback((error: Error) => {
+    console.error("Recording error:", error);
+    alert(`Recording failed: ${error.message}`);
+  }, []);
+
+  const {
+    status: recordingStatus,
+    elapsed: recordingElapsed,
+    supportedFormats: recordingFormats,
+    startRecording,
+    stopRecording,
+    pauseRecording,
+    resumeRecording,
+  } = useRecorder({
+    format: recordingFormat,
+    onRecordingComplete: handleRecordingComplete,
+    onError: handleRecordingError,
+  });
+
+  // Animated GIF / APNG loops from the shutter button
+  const [captureMode, setCaptureMode] = useState<CaptureMode>("photo");
+  const [animationSettings, setAnimationSettings] = useState<AnimationSettings>(
+    DEFAULT_ANIMATION_SETTINGS
+  );
+
+  const handleAnimationComplete = useCallback(
+    (capture: AnimationCapture) => {
+      storeCapture({
+        kind: "animation",
+        blob: capture.blob,
+        // APNG files use the plain .png extension
+        extension: capture.format === "gif" ? "gif" : "png",
+        duration: (capture.frameCount / capture.frameRate) * 1000,
+      });
+    },
+    [storeCapture]
+  );
+
+  const handleAnimationError = useCallback((error: Error) => {
+    alert(`Loop capture failed: ${error.message}`);
+  }, []);
+
+  const {
+    phase: animationPhase,
+    progress: animationProgress,
+    supportedFormats: animationFormats,
+    captureAnimation,
+    cancelCapture,
+  } = useAnimationCapture({
+    onCaptureComplete: handleAnimationComplete,
+    onError: handleAnimationError,
+  });
+
   // Set element ref
   useEffect(() => {
     if (mainContainerRef.current) {
@@ -80,91 +487,352 @@ const App: React.FC = () => {
   // Handle webcam video element ready
   const handleVideoReady = useCallback((element: HTMLVideoElement) => {
     console.log("📹 Video element ready for 3D AR:", element);
-    setVideoElement(element);
+    setSourceElement(element);
+  }, []);
 
-    // Check if video is mirrored
-    const isMirrored = element.style.transform.includes("scaleX(-1)");
-    setIsVideoMirrored(isMirrored);
-    console.log("Video mirrored state:", isMirrored);
+  // Uploaded photo or video shown in place of the camera
+  const handleSourceReady = useCallback((element: FrameSource) => {
+    console.log("🖼️ Uploaded media ready for AR:", element);
+    setSourceElement(element);
   }, []);
 
+  // Stop anything still capturing the old source before switching
+  const switchMediaFile = useCallback(
+    (file: File | null) => {
+      if (recordingStatus !== "inactive") stopRecording();
+      if (animationPhase !== "idle") cancelCapture();
+      if (offlineRenderPhase !== "idle") cancelRender();
+      if (getSourceKind(file) === "image") setCaptureMode("photo");
+      setSourceElement(null);
+      setMediaFile(file);
+    },
+    [
+      recordingStatus,
+      stopRecording,
+      animationPhase,
+      cancelCapture,
+      offlineRenderPhase,
+      cancelRender,
+    ]
+  );
+
+  const handleOpenMediaFile = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+
+      if (!file.type.startsWith("image/") && !file.type.startsWith("video/")) {
+        alert(`${file.name} isn't a photo or video`);
+        return;
+      }
+      console.log(`📂 Applying filters to ${file.name}`);
+      switchMediaFile(file);
+    },
+    [switchMediaFile]
+  );
+
   // Toggle filter selection
-  const handleFilterToggle = useCallback((filter: Filter) => {
-    setSelectedFilters((prev) => {
-      const isSelected = prev.some((f) => f.id === filter.id);
-      if (isSelected) {
-        console.log(`🔄 Removing 3D filter: ${filter.name}`);
-        return prev.filter((f) => f.id !== filter.id);
-      } else {
-        console.log(`✅ Adding 3D filter: ${filter.name}`);
-        return [...prev, filter];
+  const handleFilterToggle = useCallback(
+    (filter: Filter) => {
+      recordEdit();
+      setSelectedFilters((prev) => {
+        const isSelected = prev.some((f) => f.id === filter.id);
+        if (isSelected) {
+          console.log(`🔄 Removing 3D filter: ${filter.name}`);
+          return prev.filter((f) => f.id !== filter.id);
+        } else {
+          console.log(`✅ Adding 3D filter: ${filter.name}`);
+          return [...prev, filter];
+        }
+      });
+    },
+    [recordEdit]
+  );
+
+  // Register a filter manifest the user dropped or picked
+  const handleImportManifest = useCallback(
+    async (file: File) => {
+      try {
+        await importManifestFile(file);
+      } catch (error) {
+        console.error("Filter manifest import failed:", error);
+        const message =
+          error instanceof Error ? error.message : "Unknown error occurred";
+        alert(`Could not import filter: ${message}`);
       }
-    });
-  }, []);
+    },
+    [importManifestFile]
+  );
 
-  // Handle position adjustments from calibration
-  const handlePositionChange = useCallback(
-    (filterId: string, adjustments: any) => {
-      setPositionAdjustments((prev) => ({
-        ...prev,
-        [filterId]: adjustments,
-      }));
+  // Picking a profile also picks the camera it was used with
+  const handleProfileSwitch = useCallback(
+    (id: string) => {
+      const profile = switchProfile(id);
+      if (
+        profile?.cameraDeviceId &&
+        profile.cameraDeviceId !== cameraSettings.deviceId
+      ) {
+        setCameraSettings({
+          ...cameraSettings,
+          deviceId: profile.cameraDeviceId,
+        });
+      }
     },
-    []
+    [switchProfile, cameraSettings, setCameraSettings]
+  );
+
+  // The active profile remembers the camera picked with it, unless that
+  // camera has a default profile of its own to switch to
+  const handleCameraSettingsChange = useCallback(
+    (settings: CameraSettings) => {
+      setCameraSettings(settings);
+      if (settings.deviceId === cameraSettings.deviceId) return;
+
+      const cameraDefault = settings.deviceId
+        ? defaultsByDevice[settings.deviceId]
+        : undefined;
+      if (!cameraDefault || cameraDefault === activeProfile.id) {
+        setProfileCamera(settings.deviceId);
+      }
+    },
+    [
+      setCameraSettings,
+      cameraSettings.deviceId,
+      defaultsByDevice,
+      activeProfile.id,
+      setProfileCamera,
+    ]
+  );
+
+  // Load calibration exported earlier, keeping the current one if invalid
+  const handleImportCalibration = useCallback(
+    async (file: File) => {
+      const before = editSnapshot;
+      try {
+        await importCalibration(file);
+        recordEdit(before);
+      } catch (error) {
+        console.error("Calibration import failed:", error);
+        const message =
+          error instanceof Error ? error.message : "Unknown error occurred";
+        alert(`Could not import calibration: ${message}`);
+      }
+    },
+    [editSnapshot, importCalibration, recordEdit]
   );
 
-  // Enhanced screenshot for 3D
+  // Enhanced screenshot for 2D and 3D
+  // Resolves to whether a photo was taken, so a failing burst stops at the
+  // first failure with a single alert
   const handleScreenshot = useCallback(async () => {
-    console.log("📸 Taking 3D AR screenshot...");
+    console.log(`📸 Taking ${renderMode.toUpperCase()} AR screenshot...`);
 
     try {
-      if (!videoElement) {
+      if (!sourceElement) {
         throw new Error("No video available for screenshot");
       }
 
-      if (videoElement.readyState < 2) {
+      if (!isFrameReady(sourceElement)) {
         throw new Error("Video not ready. Please wait a moment and try again.");
       }
 
-      await takeScreenshot(videoElement, filter3DCanvasRef.current);
+      // The 3D scene is re-rendered at the photo size, the 2D canvas
+      // scaled. Failures past this point are reported through onError.
+      const dataUrl =
+        renderMode === "3d"
+          ? await takeScreenshot(
+              sourceElement,
+              filter3DCanvasRef.current,
+              overlayRendererRef.current
+            )
+          : await takeScreenshot(sourceElement, filter2DCanvasRef.current);
+      return dataUrl !== null;
     } catch (error) {
-      console.error("3D Screenshot failed:", error);
+      console.error("Screenshot failed:", error);
       const message =
         error instanceof Error ? error.message : "Unknown error occurred";
       alert(`Screenshot failed: ${message}`);
+      return false;
+    }
+  }, [takeScreenshot, sourceElement, renderMode]);
+
+  // Loops and recordings need moving pictures, so not an uploaded photo
+  const sourceVideo =
+    sourceElement instanceof HTMLVideoElement ? sourceElement : null;
+  const sourceWidth = sourceElement ? getFrameSize(sourceElement).width : 0;
+
+  const handleCaptureLoop = useCallback(() => {
+    if (!sourceVideo) return;
+    captureAnimation(
+      sourceVideo,
+      () => filter3DCanvasRef.current ?? filter2DCanvasRef.current,
+      animationSettings
+    );
+  }, [captureAnimation, sourceVideo, animationSettings]);
+
+  // Render the uploaded video through the 3D overlay, frame by frame
+  const handleRenderVideo = useCallback(() => {
+    if (!sourceVideo || offlineRenderPhase !== "idle") return;
+    if (recordingStatus !== "inactive") stopRecording();
+    if (animationPhase !== "idle") cancelCapture();
+
+    renderVideo(sourceVideo, {
+      detect: detectFrame,
+      // Rather fail than carry on encoding frames without filters
+      renderOverlay: (frameDetections, width, height) => {
+        const overlayRenderer = overlayRendererRef.current;
+        if (!overlayRenderer) {
+          throw new Error("The 3D overlay went away during the render");
+        }
+        return overlayRenderer.renderDetections(frameDetections, width, height);
+      },
+    });
+  }, [
+    sourceVideo,
+    offlineRenderPhase,
+    recordingStatus,
+    stopRecording,
+    animationPhase,
+    cancelCapture,
+    renderVideo,
+    detectFrame,
+  ]);
+
+  // Shutter with the self-timer and burst applied
+  const [timerSettings, setTimerSettings] =
+    usePersistentState<CaptureTimerSettings>(
+      STORAGE_KEYS.captureTimer,
+      DEFAULT_CAPTURE_TIMER
+    );
+  const {
+    countdown,
+    burst,
+    isActive: isTimerActive,
+    startCapture,
+    cancelCapture: cancelTimer,
+  } = useCaptureTimer();
+
+  const handleShutter = useCallback(() => {
+    if (isTimerActive) {
+      cancelTimer();
+      return;
+    }
+
+    if (captureMode === "animation") {
+      startCapture(handleCaptureLoop, {
+        delay: timerSettings.delay,
+        shots: 1,
+        interval: 0,
+      });
+      return;
     }
-  }, [takeScreenshot, videoElement]);
 
-  // Toggle between 2D and 3D modes
+    if (timerSettings.burstCount > 1) {
+      console.log(`📸 Burst of ${timerSettings.burstCount} photos`);
+    }
+    startCapture(handleScreenshot, {
+      delay: timerSettings.delay,
+      shots: timerSettings.burstCount,
+      interval: CAPTURE_TIMER_OPTIONS.burstInterval,
+    });
+  }, [
+    isTimerActive,
+    cancelTimer,
+    captureMode,
+    startCapture,
+    handleCaptureLoop,
+    handleScreenshot,
+    timerSettings,
+  ]);
+
+  const handleRecordToggle = useCallback(() => {
+    if (recordingStatus !== "inactive") {
+      stopRecording();
+      return;
+    }
+    if (!sourceVideo) return;
+
+    // Whichever overlay is mounted, so switching modes keeps recording
+    startRecording(
+      sourceVideo,
+      () => filter3DCanvasRef.current ?? filter2DCanvasRef.current
+    );
+  }, [recordingStatus, sourceVideo, startRecording, stopRecording]);
+
+  const handleRecordPauseToggle = useCallback(() => {
+    if (recordingStatus === "paused") {
+      resumeRecording();
+    } else {
+      pauseRecording();
+    }
+  }, [recordingStatus, pauseRecording, resumeRecording]);
+
+  // Filtered video for call apps, sized and mirrored apart from the preview
+  const [outputSettings, setOutputSettings] =
+    usePersistentState<OutputStreamSettings>(
+      STORAGE_KEYS.outputStream,
+      DEFAULT_OUTPUT_STREAM_SETTINGS
+    );
+  const [isOutputPanelOpen, setIsOutputPanelOpen] = useState(false);
+  const getOverlayCanvas = useCallback(
+    () => filter3DCanvasRef.current ?? filter2DCanvasRef.current,
+    []
+  );
+  const {
+    stream: outputStream,
+    size: outputSize,
+    start: startOutputStream,
+    stop: stopOutputStream,
+    openWindow: openOutputWindow,
+    api: outputStreamApi,
+  } = useOutputStream({
+    source: sourceElement,
+    getOverlayCanvas,
+    settings: outputSettings,
+  });
+
+  // Expose the stream to embedding pages and extensions, see the README
+  useEffect(() => {
+    window.arFaceFilter = {
+      ...window.arFaceFilter,
+      outputStream: outputStreamApi,
+    };
+    return () => {
+      if (window.arFaceFilter?.outputStream === outputStreamApi) {
+        delete window.arFaceFilter.outputStream;
+      }
+    };
+  }, [outputStreamApi]);
+
+  // Toggle between 2D and 3D modes (3D needs WebGL)
+  // Offline renders need the 3D overlay until they finish
   const handleRenderModeToggle = useCallback(() => {
+    if (!isWebGLSupported || offlineRenderPhase !== "idle") return;
     setRenderMode((prev) => (prev === "2d" ? "3d" : "2d"));
+  }, [isWebGLSupported, offlineRenderPhase]);
+
+  // Keep the face badge in sync with what the overlay actually draws
+  const handleFacesRendered = useCallback((count: number) => {
+    setRenderedFaceCount(count);
   }, []);
 
+  // Track filter assets that are still downloading
+  const handleModelStatusChange = useCallback(
+    (filterId: string, status: ModelLoadStatus) => {
+      setModelStatus((prev) => ({ ...prev, [filterId]: status }));
+    },
+    []
+  );
+  const isLoadingFilterModels = selectedFilters.some(
+    (filter) => modelStatus[filter.id] === "loading"
+  );
+
   // Toggle debug mode
   const handleDebugToggle = useCallback(() => {
     setDebugMode((prev) => !prev);
   }, []);
 
-  // Export calibration settings
-  const exportCalibrationSettings = useCallback(() => {
-    const settings = {
-      positionAdjustments,
-      isVideoMirrored,
-      timestamp: new Date().toISOString(),
-    };
-
-    const dataStr = JSON.stringify(settings, null, 2);
-    const dataBlob = new Blob([dataStr], { type: "application/json" });
-    const url = URL.createObjectURL(dataBlob);
-
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = "filter-calibration-settings.json";
-    link.click();
-
-    URL.revokeObjectURL(url);
-  }, [positionAdjustments, isVideoMirrored]);
-
   // Check browser compatibility
   useEffect(() => {
     const compatibility = checkBrowserCompatibility();
@@ -176,13 +844,21 @@ const App: React.FC = () => {
       canvas.getContext("webgl") || canvas.getContext("experimental-webgl")
     );
 
-    if (!compatibility.supported || !webglSupported) {
+    // Without WebGL we can still run the 2D canvas renderer
+    const { webgl, ...requiredFeatures } = compatibility.features;
+    const hasRequiredFeatures = Object.values(requiredFeatures).every(Boolean);
+
+    if (!hasRequiredFeatures) {
       setIsCompatible(false);
       setError(
         new Error(
-          "Your browser does not support WebGL or other features needed for 3D AR."
+          "Your browser does not support the features needed for AR filters."
         )
       );
+    } else if (!webgl || !webglSupported) {
+      console.warn("⚠️ WebGL unavailable, falling back to 2D rendering");
+      setIsWebGLSupported(false);
+      setRenderMode("2d");
     }
   }, []);
 
@@ -208,17 +884,84 @@ const App: React.FC = () => {
             </h1>
             <div className="text-sm text-gray-500 mt-1">
               {isModelLoading && "Loading face detection models..."}
-              {isModelLoaded && !videoElement && "Waiting for camera..."}
               {isModelLoaded &&
-                videoElement &&
+                !sourceElement &&
+                (sourceKind === "camera"
+                  ? "Waiting for camera..."
+                  : `Opening ${mediaFile?.name}...`)}
+              {isModelLoaded &&
+                sourceElement &&
                 `Ready for ${renderMode.toUpperCase()} AR ${
-                  isVideoMirrored ? "(Mirrored)" : ""
+                  isSourceMirrored ? "(Mirrored)" : ""
                 }`}
             </div>
           </div>
 
           {/* Control buttons */}
           <div className="flex gap-2">
+            {/* Open a photo or video instead of the camera */}
+            <label
+              className={`px-2 py-1 rounded text-sm cursor-pointer transition-colors ${
+                mediaFile
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 text-gray-700"
+              }`}
+              title="Apply filters to a photo or video"
+            >
+              📂
+              <input
+                type="file"
+                accept="image/*,video/*"
+                onChange={handleOpenMediaFile}
+                className="hidden"
+              />
+            </label>
+
+            {/* Output stream for call apps */}
+            <div className="relative">
+              <button
+                onClick={() => setIsOutputPanelOpen((prev) => !prev)}
+                className={`px-2 py-1 rounded text-sm transition-colors ${
+                  outputStream
+                    ? "bg-red-500 text-white"
+                    : "bg-gray-200 text-gray-700"
+                }`}
+                title="Output stream for video calls"
+              >
+                📡
+              </button>
+              {isOutputPanelOpen && (
+                <OutputStreamPanel
+                  settings={outputSettings}
+                  onChange={setOutputSettings}
+                  isActive={!!outputStream}
+                  size={outputSize}
+                  canStart={!!sourceElement}
+                  onStart={startOutputStream}
+                  onStop={stopOutputStream}
+                  onOpenWindow={openOutputWindow}
+                  onClose={() => setIsOutputPanelOpen(false)}
+                  className="absolute right-0 top-full mt-2 z-40"
+                />
+              )}
+            </div>
+
+            {/* Max Faces */}
+            <select
+              value={maxFaces}
+              onChange={(e) => setMaxFaces(Number(e.target.value))}
+              className="px-1 py-1 rounded text-sm bg-gray-200 text-gray-700"
+              title="Maximum faces to track"
+            >
+              {Array.from({ length: MAX_FACES_LIMIT }, (_, i) => i + 1).map(
+                (count) => (
+                  <option key={count} value={count}>
+                    {count} Face{count > 1 ? "s" : ""}
+                  </option>
+                )
+              )}
+            </select>
+
             {/* Debug Mode Toggle */}
             <button
               onClick={handleDebugToggle}
@@ -232,10 +975,43 @@ const App: React.FC = () => {
               🐛
             </button>
 
+            {/* Head Occluder Wireframe Toggle */}
+            {debugMode && renderMode === "3d" && (
+              <button
+                onClick={() => setShowOccluder((prev) => !prev)}
+                className={`px-2 py-1 rounded text-sm transition-colors ${
+                  showOccluder
+                    ? "bg-green-500 text-white"
+                    : "bg-gray-200 text-gray-700"
+                }`}
+                title="Show head occluder wireframe"
+              >
+                👤
+              </button>
+            )}
+
+            {/* Undo / Redo of calibration and filter choice */}
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className="px-2 py-1 rounded text-sm bg-gray-200 text-gray-700 disabled:opacity-50"
+              title="Undo (Ctrl+Z)"
+            >
+              ↶
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="px-2 py-1 rounded text-sm bg-gray-200 text-gray-700 disabled:opacity-50"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              ↷
+            </button>
+
             {/* Export Settings */}
             {Object.keys(positionAdjustments).length > 0 && (
               <button
-                onClick={exportCalibrationSettings}
+                onClick={exportCalibration}
                 className="px-2 py-1 rounded text-sm bg-green-500 text-white"
                 title="Export calibration settings"
               >
@@ -246,11 +1022,17 @@ const App: React.FC = () => {
             {/* 2D/3D Mode Toggle */}
             <button
               onClick={handleRenderModeToggle}
-              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+              disabled={!isWebGLSupported || offlineRenderPhase !== "idle"}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors disabled:opacity-50 ${
                 renderMode === "3d"
                   ? "bg-blue-500 text-white"
                   : "bg-gray-200 text-gray-700"
               }`}
+              title={
+                isWebGLSupported
+                  ? "Switch render mode"
+                  : "3D mode requires WebGL"
+              }
             >
               {renderMode === "3d" ? "3D Mode" : "2D Mode"}
             </button>
@@ -261,25 +1043,115 @@ const App: React.FC = () => {
       <main className="flex-1 flex flex-col relative" ref={mainContainerRef}>
         {/* Webcam View with 3D Filter Overlay */}
         <div className="flex-1 relative">
-          <WebcamView
-            onVideoReady={handleVideoReady}
-            className="w-full h-full"
-            mirrored={isVideoMirrored}
-          />
+          {mediaFile ? (
+            <MediaFileView
+              file={mediaFile}
+              onSourceReady={handleSourceReady}
+              onClose={() => switchMediaFile(null)}
+              onRender={
+                isOfflineRenderSupported &&
+                renderMode === "3d" &&
+                offlineRenderPhase === "idle"
+                  ? handleRenderVideo
+                  : undefined
+              }
+              className="w-full h-full"
+            />
+          ) : (
+            <WebcamView
+              onVideoReady={handleVideoReady}
+              cameraSettings={cameraSettings}
+              onCameraSettingsChange={handleCameraSettingsChange}
+              onDeviceChange={setActiveDeviceId}
+              className="w-full h-full"
+              mirrored={isVideoMirrored}
+            />
+          )}
 
           {/* 3D Filter Overlay */}
-          {videoElement && isModelLoaded && renderMode === "3d" && (
+          {sourceElement && isModelLoaded && renderMode === "3d" && (
             <Filter3DOverlay
               ref={filter3DCanvasRef}
+              snapshotRef={overlayRendererRef}
+              detections={detections}
+              source={sourceElement}
+              selectedFilters={selectedFilters}
+              debug={debugMode}
+              positionAdjustments={positionAdjustments}
+              isVideoMirrored={isSourceMirrored}
+              smoother={detectionSmoother}
+              onFacesRendered={handleFacesRendered}
+              pixelRatio={pixelRatio}
+              antialias={performanceTier.antialias}
+              projection={projectionSettings.mode}
+              focalLength={focalLength}
+              showOccluder={debugMode && showOccluder}
+              onModelStatusChange={handleModelStatusChange}
+              editFilterId={isCalibrationOpen ? editingFilterId : null}
+              onAdjustmentChange={handleAdjustmentChange}
+              onAdjustmentStart={beginEditGesture}
+              onAdjustmentEnd={endEditGesture}
+            />
+          )}
+
+          {/* 2D Filter Overlay */}
+          {sourceElement && isModelLoaded && renderMode === "2d" && (
+            <Filter2DOverlay
+              ref={filter2DCanvasRef}
               detections={detections}
-              videoElement={videoElement}
+              source={sourceElement}
               selectedFilters={selectedFilters}
               debug={debugMode}
               positionAdjustments={positionAdjustments}
-              isVideoMirrored={isVideoMirrored}
+              isVideoMirrored={isSourceMirrored}
+              smoother={detectionSmoother}
+              onFacesRendered={handleFacesRendered}
             />
           )}
 
+          {/* Self-timer countdown and burst progress */}
+          {(countdown !== null || burst) && (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-20">
+              {countdown !== null ? (
+                <span
+                  key={countdown}
+                  className="countdown-tick text-white text-8xl font-bold drop-shadow-lg"
+                >
+                  {countdown}
+                </span>
+              ) : (
+                <span className="bg-black bg-opacity-50 text-white text-lg px-3 py-1 rounded-full">
+                  {burst?.taken} / {burst?.total}
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Frame-by-frame render progress */}
+          {offlineRenderPhase !== "idle" && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 z-40">
+              <div className="bg-white rounded-lg p-4 shadow-lg w-64 text-sm space-y-3">
+                <p className="font-medium">
+                  {offlineRenderPhase === "rendering"
+                    ? `Rendering video… ${Math.round(offlineRenderProgress * 100)}%`
+                    : "Finishing video…"}
+                </p>
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500"
+                    style={{ width: `${offlineRenderProgress * 100}%` }}
+                  />
+                </div>
+                <button
+                  onClick={cancelRender}
+                  className="w-full bg-gray-200 hover:bg-gray-300 rounded px-2 py-1"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Loading indicator */}
           {isModelLoading && (
             <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 z-20">
@@ -295,9 +1167,19 @@ const App: React.FC = () => {
 
           {/* Status indicators */}
           <div className="absolute top-4 right-4 space-y-2">
-            {renderMode === "3d" && videoElement && isModelLoaded && (
+            {sourceElement && isModelLoaded && (
               <div className="bg-blue-500 text-white px-2 py-1 rounded text-xs">
-                3D AR Active {isVideoMirrored && "(Mirrored)"}
+                {renderMode.toUpperCase()} AR Active{" "}
+                {renderMode === "3d" &&
+                  projectionSettings.mode === "perspective" &&
+                  "· Perspective "}
+                {isSourceMirrored && "(Mirrored)"}
+              </div>
+            )}
+
+            {outputStream && (
+              <div className="bg-red-500 text-white px-2 py-1 rounded text-xs">
+                📡 Output Live
               </div>
             )}
 
@@ -307,9 +1189,26 @@ const App: React.FC = () => {
               </div>
             )}
 
-            {detections && detections.length > 0 && (
+            {sourceElement && isModelLoaded && (
+              <div
+                className="bg-gray-700 text-white px-2 py-1 rounded text-xs"
+                title={`Detection every ${performanceTier.detectionFrequency}ms at ${performanceTier.inputSize}px`}
+              >
+                {performanceTier.label} Quality
+                {performanceStats.fps > 0 &&
+                  ` · ${Math.round(performanceStats.fps)} FPS`}
+              </div>
+            )}
+
+            {renderMode === "3d" && isLoadingFilterModels && (
+              <div className="bg-yellow-500 text-white px-2 py-1 rounded text-xs">
+                Loading 3D models...
+              </div>
+            )}
+
+            {renderedFaceCount > 0 && (
               <div className="bg-green-500 text-white px-2 py-1 rounded text-xs">
-                {detections.length} Face{detections.length > 1 ? "s" : ""}{" "}
+                {renderedFaceCount} Face{renderedFaceCount > 1 ? "s" : ""}{" "}
                 Detected
               </div>
             )}
@@ -325,30 +1224,125 @@ const App: React.FC = () => {
           `}
         >
           <FilterSelector
-            filters={FILTERS}
+            filters={filters}
             selectedFilters={selectedFilters}
             onFilterToggle={handleFilterToggle}
+            onImportManifest={handleImportManifest}
             className="mx-4"
           />
         </div>
 
         {/* Control Panel */}
-        <div className="absolute bottom-0 left-0 right-0 p-4 flex justify-center z-30">
+        <div className="absolute bottom-0 left-0 right-0 p-4 flex flex-col items-center gap-2 z-30">
+          {captureMode === "animation" && animationPhase === "idle" && (
+            <AnimationCaptureSettings
+              settings={animationSettings}
+              onChange={setAnimationSettings}
+              supportedFormats={animationFormats}
+            />
+          )}
+          {captureMode === "photo" && isPhotoSettingsOpen && (
+            <PhotoCaptureSettings
+              settings={photoSettings}
+              onChange={setPhotoSettings}
+              supportedFormats={photoFormats}
+            />
+          )}
           <ControlPanel
-            onScreenshot={handleScreenshot}
+            onScreenshot={handleShutter}
             onFilterPanelToggle={() => setIsFilterPanelOpen((prev) => !prev)}
             isFilterPanelOpen={isFilterPanelOpen}
             numFiltersSelected={selectedFilters.length}
+            recordingStatus={recordingStatus}
+            recordingElapsed={recordingElapsed}
+            maxRecordingDuration={RECORDING_OPTIONS.maxDuration}
+            recordingFormats={recordingFormats}
+            recordingFormat={recordingFormat}
+            onRecordToggle={sourceVideo ? handleRecordToggle : undefined}
+            onRecordPauseToggle={handleRecordPauseToggle}
+            onRecordingFormatChange={setRecordingFormat}
+            captureMode={captureMode}
+            onCaptureModeChange={
+              sourceKind === "image" ? undefined : setCaptureMode
+            }
+            animationPhase={animationPhase}
+            animationProgress={animationProgress}
+            onCancelAnimation={cancelCapture}
+            onGalleryToggle={() => setIsGalleryOpen((prev) => !prev)}
+            galleryCount={gallery.items.length}
+            latestThumbnail={gallery.items[0]?.thumbnail}
+            timerSettings={timerSettings}
+            onTimerSettingsChange={setTimerSettings}
+            isTimerActive={isTimerActive}
+            isPhotoSettingsOpen={isPhotoSettingsOpen}
+            onPhotoSettingsToggle={() =>
+              setIsPhotoSettingsOpen((prev) => !prev)
+            }
           />
         </div>
 
+        {/* Gallery */}
+        <GalleryDrawer
+          items={gallery.items}
+          isOpen={isGalleryOpen}
+          onClose={() => setIsGalleryOpen(false)}
+          onDelete={handleGalleryDelete}
+          onDownload={handleGalleryDownload}
+          onShare={handleGalleryShare}
+          canShare={gallery.canShare}
+          loadMedia={gallery.getCaptureMedia}
+          autoDownload={autoDownload}
+          onAutoDownloadChange={setAutoDownload}
+        />
+
         {/* Calibration Panel */}
         <FilterCalibration
-          onPositionChange={handlePositionChange}
+          adjustments={positionAdjustments}
+          onPositionChange={handleAdjustmentChange}
+          onSliderDragStart={beginEditGesture}
+          onSliderDragEnd={endEditGesture}
+          isVideoMirrored={isVideoMirrored}
+          onMirroredChange={handleMirroredChange}
+          onImport={handleImportCalibration}
+          onExport={exportCalibration}
+          editingFilterId={editingFilterId}
+          onEditFilter={renderMode === "3d" ? setEditingFilterId : undefined}
           selectedFilters={selectedFilters}
           isVisible={isCalibrationOpen}
           onToggle={() => setIsCalibrationOpen((prev) => !prev)}
-        />
+        >
+          <CalibrationProfilePicker
+            profiles={calibrationProfiles}
+            activeProfile={activeProfile}
+            onSwitch={handleProfileSwitch}
+            onCreate={createProfile}
+            onRename={renameProfile}
+            onDuplicate={duplicateProfile}
+            onDelete={deleteProfile}
+            isCameraDefault={
+              !!activeDeviceId &&
+              defaultsByDevice[activeDeviceId] === activeProfile.id
+            }
+            onCameraDefaultChange={
+              sourceKind === "camera" && activeDeviceId
+                ? setDefaultForDevice
+                : undefined
+            }
+          />
+          {renderMode === "3d" && (
+            <ProjectionControls
+              settings={projectionSettings}
+              onChange={setProjectionSettings}
+              focalLength={resolveFocalLength(focalLength, sourceWidth)}
+              videoWidth={sourceWidth}
+              estimatedFocalLength={estimatedFocalLength}
+              isEstimating={isEstimatingFocalLength}
+              estimationProgress={focalLengthProgress}
+              onEstimate={startFocalLengthEstimation}
+              onCancelEstimate={cancelFocalLengthEstimation}
+            />
+          )}
+        </FilterCalibration>
       </main>
     </div>
   );
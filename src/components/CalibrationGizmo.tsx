@@ -0,0 +1,223 @@
+import React, { forwardRef, useEffect, useRef } from "react";
+import type { FilterAdjustment } from "../types/Filter";
+import { CALIBRATION_RANGES } from "../constants";
+
+type GizmoMode = "move" | "scale" | "rotate" | "pinch";
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface GizmoDrag {
+  mode: GizmoMode;
+  start: FilterAdjustment; // When the drag began
+  origin: Point; // First pointer when the drag began
+  center: Point; // Of the frame, in client pixels
+  startDistance: number; // To the center, or between pinching fingers
+  startAngle: number; // Of the first pointer around the center
+}
+
+interface CalibrationGizmoProps {
+  adjustment: FilterAdjustment;
+  onChange: (adjustment: FilterAdjustment) => void;
+  onChangeStart?: () => void; // The first pointer goes down
+  onChangeEnd?: () => void; // The last pointer lifts
+  pixelsPerUnit: number; // Screen pixels per scene unit
+  mirrored?: boolean; // Shown flipped along with the overlay
+}
+
+const clamp = (value: number, [min, max]: readonly [number, number]) =>
+  Math.min(max, Math.max(min, value));
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const angle = (center: Point, point: Point) =>
+  Math.atan2(point.y - center.y, point.x - center.x);
+
+const getCenter = (element: HTMLElement): Point => {
+  const rect = element.getBoundingClientRect();
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+};
+
+// Screen y points down and scene y up, so vertical moves and turns flip.
+// A mirrored overlay flips horizontal moves and turns back again.
+const applyDrag = (
+  drag: GizmoDrag,
+  [first, second]: Point[],
+  pixelsPerUnit: number,
+  mirrored: boolean
+): FilterAdjustment => {
+  const { start } = drag;
+  const flipX = mirrored ? -1 : 1;
+  switch (drag.mode) {
+    case "move":
+      return {
+        ...start,
+        x: clamp(
+          start.x + (flipX * (first.x - drag.origin.x)) / pixelsPerUnit,
+          CALIBRATION_RANGES.x
+        ),
+        y: clamp(
+          start.y - (first.y - drag.origin.y) / pixelsPerUnit,
+          CALIBRATION_RANGES.y
+        ),
+      };
+    case "scale":
+      return {
+        ...start,
+        scale: clamp(
+          (start.scale * distance(drag.center, first)) / drag.startDistance,
+          CALIBRATION_RANGES.scale
+        ),
+      };
+    case "pinch":
+      if (!second) return start;
+      return {
+        ...start,
+        scale: clamp(
+          (start.scale * distance(first, second)) / drag.startDistance,
+          CALIBRATION_RANGES.scale
+        ),
+      };
+    case "rotate": {
+      const turn = angle(drag.center, first) - drag.startAngle;
+      return {
+        ...start,
+        rotZ: clamp(
+          start.rotZ - flipX * Math.atan2(Math.sin(turn), Math.cos(turn)),
+          CALIBRATION_RANGES.rotZ
+        ),
+      };
+    }
+  }
+};
+
+/**
+ * Handles around a filter on the preview. Drag the frame to move the
+ * filter, the corner handle or a pinch to scale it and the ring to turn
+ * it. The overlay places the frame every animation frame through the
+ * forwarded ref.
+ */
+const CalibrationGizmo = forwardRef<HTMLDivElement, CalibrationGizmoProps>(
+  (
+    {
+      adjustment,
+      onChange,
+      onChangeStart,
+      onChangeEnd,
+      pixelsPerUnit,
+      mirrored = false,
+    },
+    ref
+  ) => {
+    const pointersRef = useRef(new Map<number, Point>());
+    const dragRef = useRef<GizmoDrag | null>(null);
+
+    // Drags start from the latest adjustment, also mid-gesture
+    const adjustmentRef = useRef(adjustment);
+    const onChangeEndRef = useRef(onChangeEnd);
+    useEffect(() => {
+      adjustmentRef.current = adjustment;
+      onChangeEndRef.current = onChangeEnd;
+    }, [adjustment, onChangeEnd]);
+
+    // End a drag cut short by the handles going away
+    useEffect(() => {
+      const pointers = pointersRef.current;
+      return () => {
+        if (pointers.size > 0) onChangeEndRef.current?.();
+      };
+    }, []);
+
+    const startDrag = (mode: GizmoMode, center: Point) => {
+      const [first, second] = [...pointersRef.current.values()];
+      const startDistance =
+        mode === "pinch" && second
+          ? distance(first, second)
+          : distance(center, first);
+      dragRef.current = {
+        mode,
+        start: adjustmentRef.current,
+        origin: first,
+        center,
+        startDistance: Math.max(1, startDistance),
+        startAngle: angle(center, first),
+      };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      if (pointersRef.current.size === 0) onChangeStart?.();
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      // A second finger on the frame pinches, the handles say what they do
+      if (pointersRef.current.size > 1) {
+        startDrag("pinch", getCenter(e.currentTarget));
+        return;
+      }
+      const handle = (e.target as HTMLElement).dataset.handle;
+      startDrag(
+        handle === "scale" || handle === "rotate" ? handle : "move",
+        getCenter(e.currentTarget)
+      );
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+      const drag = dragRef.current;
+      if (!drag || !pointersRef.current.has(e.pointerId)) return;
+
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      onChange(
+        applyDrag(
+          drag,
+          [...pointersRef.current.values()],
+          pixelsPerUnit,
+          mirrored
+        )
+      );
+    };
+
+    // A finger left on the frame after a pinch carries on moving it
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!pointersRef.current.delete(e.pointerId)) return;
+
+      dragRef.current = null;
+      if (pointersRef.current.size > 0) {
+        startDrag("move", getCenter(e.currentTarget));
+      } else {
+        onChangeEnd?.();
+      }
+    };
+
+    return (
+      <div
+        ref={ref}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="absolute border-2 border-dashed border-blue-400 cursor-move touch-none"
+        style={{ visibility: "hidden", zIndex: 1 }}
+        title="Drag to move"
+      >
+        <div className="absolute left-1/2 -top-6 h-6 border-l-2 border-blue-400 pointer-events-none" />
+        <div
+          data-handle="rotate"
+          className="absolute left-1/2 -top-10 w-5 h-5 -ml-2.5 rounded-full border-4 border-blue-500 bg-white bg-opacity-50 cursor-grab"
+          title="Drag to rotate"
+        />
+        <div
+          data-handle="scale"
+          className="absolute -right-2 -bottom-2 w-4 h-4 bg-blue-500 border-2 border-white cursor-nwse-resize"
+          title="Drag to scale"
+        />
+      </div>
+    );
+  }
+);
+
+CalibrationGizmo.displayName = "CalibrationGizmo";
+
+export default CalibrationGizmo;
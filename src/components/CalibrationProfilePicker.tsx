@@ -0,0 +1,111 @@
+import React from "react";
+import type { CalibrationProfile } from "../types/Calibration";
+
+interface CalibrationProfilePickerProps {
+  profiles: CalibrationProfile[];
+  activeProfile: CalibrationProfile;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  isCameraDefault: boolean;
+  onCameraDefaultChange?: (isDefault: boolean) => void; // Unset without a camera
+}
+
+const askForName = (message: string, current = "") => {
+  const name = window.prompt(message, current)?.trim();
+  return name || null;
+};
+
+/**
+ * Picks and manages the named calibration profiles
+ */
+const CalibrationProfilePicker: React.FC<CalibrationProfilePickerProps> = ({
+  profiles,
+  activeProfile,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  isCameraDefault,
+  onCameraDefaultChange,
+}) => {
+  const handleCreate = () => {
+    const name = askForName("Name for the new profile");
+    if (name) onCreate(name);
+  };
+
+  const handleRename = () => {
+    const name = askForName("Rename profile", activeProfile.name);
+    if (name) onRename(activeProfile.id, name);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the "${activeProfile.name}" profile?`)) return;
+    onDelete(activeProfile.id);
+  };
+
+  return (
+    <div className="mb-4 p-3 border rounded space-y-2 text-sm">
+      <label className="block">
+        <span className="text-xs text-gray-600">Profile</span>
+        <select
+          value={activeProfile.id}
+          onChange={(e) => onSwitch(e.target.value)}
+          className="w-full border rounded px-1 py-1 mt-0.5"
+        >
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex gap-1 text-xs">
+        <button
+          onClick={handleCreate}
+          className="bg-gray-200 px-2 py-1 rounded"
+        >
+          New
+        </button>
+        <button
+          onClick={handleRename}
+          className="bg-gray-200 px-2 py-1 rounded"
+        >
+          Rename
+        </button>
+        <button
+          onClick={() => onDuplicate(activeProfile.id)}
+          className="bg-gray-200 px-2 py-1 rounded"
+        >
+          Duplicate
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={profiles.length < 2}
+          className="bg-gray-200 px-2 py-1 rounded disabled:opacity-50"
+        >
+          Delete
+        </button>
+      </div>
+
+      <label
+        className="flex items-center gap-2 text-xs"
+        title="Switch to this profile whenever this camera starts"
+      >
+        <input
+          type="checkbox"
+          checked={isCameraDefault}
+          disabled={!onCameraDefaultChange}
+          onChange={(e) => onCameraDefaultChange?.(e.target.checked)}
+        />
+        <span className="text-gray-600">Default for this camera</span>
+      </label>
+    </div>
+  );
+};
+
+export default CalibrationProfilePicker;
@@ -0,0 +1,132 @@
+import React from "react";
+import type { CameraResolution, CameraSettings } from "../types/Camera";
+import { CAMERA_FRAME_RATES, CAMERA_RESOLUTIONS } from "../constants";
+
+interface CameraPickerProps {
+  devices: MediaDeviceInfo[];
+  settings: CameraSettings;
+  onChange: (settings: CameraSettings) => void;
+  activeSettings?: MediaTrackSettings | null; // What the camera delivered
+  capabilities?: MediaTrackCapabilities | null; // Hides presets it can't reach
+  onClose: () => void;
+  className?: string;
+}
+
+const CameraPicker: React.FC<CameraPickerProps> = ({
+  devices,
+  settings,
+  onChange,
+  activeSettings,
+  capabilities,
+  onClose,
+  className = "",
+}) => {
+  // Presets above what the camera reports are left out, apart from the one
+  // already chosen
+  const resolutions = (
+    Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[]
+  ).filter(
+    (resolution) =>
+      resolution === settings.resolution ||
+      ((!capabilities?.width?.max ||
+        CAMERA_RESOLUTIONS[resolution].width <= capabilities.width.max) &&
+        (!capabilities?.height?.max ||
+          CAMERA_RESOLUTIONS[resolution].height <= capabilities.height.max))
+  );
+  const frameRates = CAMERA_FRAME_RATES.filter(
+    (rate) =>
+      rate === settings.frameRate ||
+      !capabilities?.frameRate?.max ||
+      rate <= capabilities.frameRate.max
+  );
+
+  const isSavedDeviceMissing =
+    !!settings.deviceId &&
+    devices.length > 0 &&
+    !devices.some((device) => device.deviceId === settings.deviceId);
+
+  return (
+    <div
+      className={`bg-white bg-opacity-95 rounded-lg p-3 shadow-lg w-64 text-xs space-y-2 ${className}`}
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-bold">Camera</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          ✕
+        </button>
+      </div>
+
+      <label className="block">
+        <span className="text-gray-600">Device</span>
+        <select
+          value={isSavedDeviceMissing ? "" : (settings.deviceId ?? "")}
+          onChange={(e) =>
+            onChange({ ...settings, deviceId: e.target.value || null })
+          }
+          className="w-full border rounded px-1 py-1 mt-0.5"
+        >
+          <option value="">Default camera</option>
+          {devices.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `Camera ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      </label>
+      {isSavedDeviceMissing && (
+        <p className="text-yellow-700">
+          Your chosen camera is unplugged. It'll be used again once it's back.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <label className="flex-1">
+          <span className="text-gray-600">Resolution</span>
+          <select
+            value={settings.resolution}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                resolution: e.target.value as CameraResolution,
+              })
+            }
+            className="w-full border rounded px-1 py-1 mt-0.5"
+          >
+            {resolutions.map((resolution) => (
+              <option key={resolution} value={resolution}>
+                {CAMERA_RESOLUTIONS[resolution].label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="w-20">
+          <span className="text-gray-600">FPS</span>
+          <select
+            value={settings.frameRate}
+            onChange={(e) =>
+              onChange({ ...settings, frameRate: parseInt(e.target.value) })
+            }
+            className="w-full border rounded px-1 py-1 mt-0.5"
+          >
+            {frameRates.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {activeSettings?.width && activeSettings.height && (
+        <p className="text-gray-500">
+          Streaming {activeSettings.width}×{activeSettings.height}
+          {activeSettings.frameRate &&
+            ` at ${Math.round(activeSettings.frameRate)} fps`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CameraPicker;
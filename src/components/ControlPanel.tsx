@@ -1,25 +1,216 @@
 import React, { useRef } from "react";
+import { useObjectUrl } from "../hooks/useObjectUrl";
 import { Filter } from "../types/Filter";
+import type { RecordingFormat, RecordingStatus } from "../types/Recording";
+import type { AnimationCapturePhase, CaptureMode } from "../types/Animation";
+import type { CaptureTimerSettings } from "../types/Capture";
+import { CAPTURE_TIMER_OPTIONS } from "../constants";
 
 interface ControlPanelProps {
   onScreenshot: () => void;
   onFilterPanelToggle: () => void;
   isFilterPanelOpen: boolean;
   numFiltersSelected: number;
+  recordingStatus?: RecordingStatus;
+  recordingElapsed?: number; // ms
+  maxRecordingDuration?: number; // ms
+  recordingFormats?: RecordingFormat[]; // Empty when recording isn't supported
+  recordingFormat?: RecordingFormat;
+  onRecordToggle?: () => void;
+  onRecordPauseToggle?: () => void;
+  onRecordingFormatChange?: (format: RecordingFormat) => void;
+  captureMode?: CaptureMode;
+  onCaptureModeChange?: (mode: CaptureMode) => void;
+  animationPhase?: AnimationCapturePhase;
+  animationProgress?: number; // 0-1 within the current phase
+  onCancelAnimation?: () => void;
+  onGalleryToggle?: () => void;
+  galleryCount?: number;
+  latestThumbnail?: Blob; // Newest capture, shown on the gallery button
+  timerSettings?: CaptureTimerSettings;
+  onTimerSettingsChange?: (settings: CaptureTimerSettings) => void;
+  isTimerActive?: boolean; // Counting down or shooting a burst
+  isPhotoSettingsOpen?: boolean;
+  onPhotoSettingsToggle?: () => void;
   className?: string;
 }
 
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const SHUTTER_LABELS: Record<CaptureMode, string> = {
+  photo: "Take a picture",
+  animation: "Capture a loop",
+};
+
+// Next option after the current one, wrapping around
+const cycle = (options: number[], current: number) =>
+  options[(options.indexOf(current) + 1) % options.length];
+
 const ControlPanel: React.FC<ControlPanelProps> = ({
   onScreenshot,
   onFilterPanelToggle,
   isFilterPanelOpen,
   numFiltersSelected,
+  recordingStatus = "inactive",
+  recordingElapsed = 0,
+  maxRecordingDuration,
+  recordingFormats = [],
+  recordingFormat,
+  onRecordToggle,
+  onRecordPauseToggle,
+  onRecordingFormatChange,
+  captureMode = "photo",
+  onCaptureModeChange,
+  animationPhase = "idle",
+  animationProgress = 0,
+  onCancelAnimation,
+  onGalleryToggle,
+  galleryCount = 0,
+  latestThumbnail,
+  timerSettings,
+  onTimerSettingsChange,
+  isTimerActive = false,
+  isPhotoSettingsOpen = false,
+  onPhotoSettingsToggle,
   className = "",
 }) => {
+  const thumbnailUrl = useObjectUrl(latestThumbnail);
+  const isRecording = recordingStatus !== "inactive";
+  const canRecord = !!onRecordToggle && recordingFormats.length > 0;
+  const isCapturingAnimation = animationPhase !== "idle";
+
   return (
     <div
       className={`bg-white bg-opacity-90 rounded-lg p-3 shadow-lg ${className}`}
     >
+      {isRecording && (
+        <div className="flex items-center justify-center gap-2 mb-2 text-sm font-mono text-red-600">
+          <span
+            className={`w-2.5 h-2.5 rounded-full bg-red-600 ${
+              recordingStatus === "recording" ? "animate-pulse" : "opacity-40"
+            }`}
+          />
+          {recordingStatus === "paused" ? "PAUSED" : "REC"}{" "}
+          {formatDuration(recordingElapsed)}
+          {maxRecordingDuration && (
+            <span className="text-gray-500">
+              / {formatDuration(maxRecordingDuration)}
+            </span>
+          )}
+        </div>
+      )}
+
+      {isCapturingAnimation && (
+        <div className="flex items-center gap-2 mb-2 text-xs text-gray-700">
+          <span className="whitespace-nowrap">
+            {animationPhase === "capturing" ? "Capturing" : "Encoding"}{" "}
+            {Math.round(animationProgress * 100)}%
+          </span>
+          <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-150 ${
+                animationPhase === "capturing" ? "bg-red-500" : "bg-blue-500"
+              }`}
+              style={{ width: `${animationProgress * 100}%` }}
+            />
+          </div>
+          {onCancelAnimation && (
+            <button
+              onClick={onCancelAnimation}
+              className="text-gray-500 hover:text-gray-800"
+              aria-label="Cancel capture"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      )}
+
+      {!isCapturingAnimation && (
+        <div className="flex justify-center gap-1 mb-2 text-xs">
+          {onCaptureModeChange &&
+            (["photo", "animation"] as CaptureMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => onCaptureModeChange(mode)}
+                className={`px-2 py-0.5 rounded-full transition-colors duration-200 ${
+                  captureMode === mode
+                    ? "bg-red-500 text-white"
+                    : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                }`}
+              >
+                {mode === "photo" ? "Photo" : "Loop"}
+              </button>
+            ))}
+
+          {captureMode === "photo" && onPhotoSettingsToggle && (
+            <button
+              onClick={onPhotoSettingsToggle}
+              className={`px-2 py-0.5 rounded-full transition-colors duration-200 ${
+                isPhotoSettingsOpen
+                  ? "bg-gray-800 text-white"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+              title="Photo settings"
+              aria-label="Photo settings"
+            >
+              ⚙️
+            </button>
+          )}
+
+          {timerSettings && onTimerSettingsChange && (
+            <>
+              <button
+                onClick={() =>
+                  onTimerSettingsChange({
+                    ...timerSettings,
+                    delay: cycle(
+                      CAPTURE_TIMER_OPTIONS.delays,
+                      timerSettings.delay
+                    ),
+                  })
+                }
+                className={`ml-2 px-2 py-0.5 rounded-full transition-colors duration-200 ${
+                  timerSettings.delay > 0
+                    ? "bg-gray-800 text-white"
+                    : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                }`}
+                title="Self-timer"
+              >
+                ⏱️ {timerSettings.delay > 0 ? `${timerSettings.delay}s` : "Off"}
+              </button>
+
+              {captureMode === "photo" && (
+                <button
+                  onClick={() =>
+                    onTimerSettingsChange({
+                      ...timerSettings,
+                      burstCount: cycle(
+                        CAPTURE_TIMER_OPTIONS.burstCounts,
+                        timerSettings.burstCount
+                      ),
+                    })
+                  }
+                  className={`px-2 py-0.5 rounded-full transition-colors duration-200 ${
+                    timerSettings.burstCount > 1
+                      ? "bg-gray-800 text-white"
+                      : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  }`}
+                  title="Burst"
+                >
+                  {timerSettings.burstCount > 1
+                    ? `Burst ×${timerSettings.burstCount}`
+                    : "Single"}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-between gap-4">
         <button
           onClick={onFilterPanelToggle}
@@ -60,8 +251,11 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
         <button
           onClick={onScreenshot}
-          className="flex items-center justify-center p-3 rounded-full bg-red-500 text-white hover:bg-red-600 transition-colors duration-200 shadow"
-          aria-label="Take a picture"
+          disabled={isCapturingAnimation}
+          className="flex items-center justify-center p-3 rounded-full bg-red-500 text-white hover:bg-red-600 transition-colors duration-200 shadow disabled:opacity-50"
+          aria-label={
+            isTimerActive ? "Cancel timer" : SHUTTER_LABELS[captureMode]
+          }
         >
           <svg
             xmlns="http://www.w3.org/2000/svg"
@@ -74,9 +268,120 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             strokeLinecap="round"
             strokeLinejoin="round"
           >
-            <circle cx="12" cy="12" r="8"></circle>
+            {isTimerActive ? (
+              <>
+                <line x1="8" y1="8" x2="16" y2="16"></line>
+                <line x1="16" y1="8" x2="8" y2="16"></line>
+              </>
+            ) : (
+              <>
+                <circle cx="12" cy="12" r="8"></circle>
+                {captureMode === "animation" && (
+                  <circle cx="12" cy="12" r="3" fill="currentColor"></circle>
+                )}
+              </>
+            )}
           </svg>
         </button>
+
+        {onGalleryToggle && (
+          <button
+            onClick={onGalleryToggle}
+            className="relative w-12 h-12 rounded-lg overflow-hidden bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-colors duration-200"
+            aria-label="Gallery"
+          >
+            {thumbnailUrl ? (
+              <img
+                src={thumbnailUrl}
+                alt=""
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <span className="text-xl">🖼️</span>
+            )}
+            {galleryCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-blue-500 text-white text-xs rounded-full flex items-center justify-center">
+                {galleryCount}
+              </span>
+            )}
+          </button>
+        )}
+
+        {canRecord && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onRecordToggle}
+              className={`flex items-center justify-center p-3 rounded-full transition-colors duration-200 shadow ${
+                isRecording
+                  ? "bg-gray-800 text-red-500 hover:bg-gray-700"
+                  : "bg-gray-100 text-red-600 hover:bg-gray-200"
+              }`}
+              aria-label={isRecording ? "Stop recording" : "Record video"}
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="currentColor"
+              >
+                {isRecording ? (
+                  <rect x="6" y="6" width="12" height="12" rx="2"></rect>
+                ) : (
+                  <circle cx="12" cy="12" r="6"></circle>
+                )}
+              </svg>
+            </button>
+
+            {isRecording && onRecordPauseToggle && (
+              <button
+                onClick={onRecordPauseToggle}
+                className="flex items-center justify-center p-3 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors duration-200"
+                aria-label={
+                  recordingStatus === "paused"
+                    ? "Resume recording"
+                    : "Pause recording"
+                }
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="currentColor"
+                >
+                  {recordingStatus === "paused" ? (
+                    <polygon points="7,5 19,12 7,19"></polygon>
+                  ) : (
+                    <>
+                      <rect x="6" y="5" width="4" height="14"></rect>
+                      <rect x="14" y="5" width="4" height="14"></rect>
+                    </>
+                  )}
+                </svg>
+              </button>
+            )}
+
+            {!isRecording &&
+              recordingFormats.length > 1 &&
+              onRecordingFormatChange && (
+                <select
+                  value={recordingFormat}
+                  onChange={(e) =>
+                    onRecordingFormatChange(e.target.value as RecordingFormat)
+                  }
+                  className="text-xs border rounded px-1 py-1"
+                  aria-label="Recording format"
+                >
+                  {recordingFormats.map((format) => (
+                    <option key={format} value={format}>
+                      {format.toUpperCase()}
+                    </option>
+                  ))}
+                </select>
+              )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,221 @@
+import {
+  useRef,
+  useEffect,
+  useState,
+  forwardRef,
+  useImperativeHandle,
+} from "react";
+import * as faceapi from "face-api.js";
+import type { Filter, FilterAdjustment } from "../types/Filter";
+import { loadFilterImage } from "../utils/filterAssets";
+import type { DetectionSmoother } from "../utils/landmarkSmoothing";
+import type { FaceDetectionWithLandmarks } from "../types/FaceDetection";
+import type { FrameSource } from "../types/InputSource";
+import { getFrameSize, onFrameSizeChange } from "../utils/frameSource";
+import { requestFrame } from "../utils/frameClock";
+import { MIN_DETECTION_CONFIDENCE } from "../constants";
+
+interface Filter2DOverlayProps {
+  detections:
+    | faceapi.WithFaceLandmarks<
+        { detection: faceapi.FaceDetection },
+        faceapi.FaceLandmarks68
+      >[]
+    | null;
+  source: FrameSource | null; // Camera, uploaded video or photo
+  selectedFilters: Filter[];
+  className?: string;
+  debug?: boolean;
+  positionAdjustments?: Record<string, Partial<FilterAdjustment>>;
+  isVideoMirrored?: boolean; // Flip the preview along with the video
+  smoother?: DetectionSmoother;
+  onFacesRendered?: (count: number) => void;
+}
+
+/**
+ * Canvas 2D fallback renderer that draws the flat SVG artwork for each filter.
+ *
+ * The canvas is sized to the video's intrinsic resolution so detection
+ * coordinates can be used as-is. Like the 3D overlay it draws in unmirrored
+ * video space. When the video is shown mirrored the canvas is flipped with
+ * it in the preview, and captures flip both layers together.
+ */
+const Filter2DOverlay = forwardRef<HTMLCanvasElement, Filter2DOverlayProps>(
+  (
+    {
+      detections,
+      source,
+      selectedFilters,
+      className = "",
+      debug = false,
+      positionAdjustments = {},
+      isVideoMirrored = false,
+      smoother,
+      onFacesRendered,
+    },
+    ref
+  ) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [images, setImages] = useState<Map<string, HTMLImageElement>>(
+      new Map()
+    );
+    const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+    const renderedFacesRef = useRef(0);
+
+    // Expose canvas ref to parent component
+    useImperativeHandle(ref, () => canvasRef.current!, []);
+
+    // Match the canvas to the source's intrinsic size
+    useEffect(() => {
+      if (!source) return;
+
+      const updateDimensions = () => {
+        const { width, height } = getFrameSize(source);
+        if (width > 0 && height > 0) {
+          setDimensions((prev) =>
+            prev.width === width && prev.height === height
+              ? prev
+              : { width, height }
+          );
+        }
+      };
+
+      updateDimensions();
+      return onFrameSizeChange(source, updateDimensions);
+    }, [source]);
+
+    // Load artwork for the selected filters
+    useEffect(() => {
+      let cancelled = false;
+
+      selectedFilters.forEach((filter) => {
+        const src = filter.image;
+        if (!src || images.has(filter.id)) return;
+
+        loadFilterImage(src)
+          .then((image) => {
+            if (cancelled) return;
+            setImages((prev) => new Map(prev).set(filter.id, image));
+          })
+          .catch((error) => {
+            console.error(`Failed to load 2D artwork for ${filter.id}:`, error);
+          });
+      });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [selectedFilters, images]);
+
+    // Clear the parent's face count when the overlay goes away
+    useEffect(() => {
+      return () => onFacesRendered?.(0);
+    }, [onFacesRendered]);
+
+    // Draw filters every frame when smoothing, otherwise on each detection
+    useEffect(() => {
+      const canvas = canvasRef.current;
+      if (!canvas || dimensions.width === 0) return;
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+
+      let cancelFrame = () => {};
+
+      const draw = (frameDetections: FaceDetectionWithLandmarks[] | null) => {
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+        const faces = (frameDetections ?? []).filter(
+          (detection) => detection.detection.score >= MIN_DETECTION_CONFIDENCE
+        );
+        if (faces.length !== renderedFacesRef.current) {
+          renderedFacesRef.current = faces.length;
+          onFacesRendered?.(faces.length);
+        }
+
+        faces.forEach((detection) => {
+          selectedFilters.forEach((filter) => {
+            const image = images.get(filter.id);
+            if (!image) return;
+
+            const position = filter.position(detection.landmarks, detection);
+            const adjustments = {
+              ...filter.defaultAdjustment,
+              ...positionAdjustments[filter.id],
+            };
+            const scale = adjustments.scale || 1;
+
+            // Calibration offsets are in 3D scene units (half the frame per
+            // unit, Y up), so convert them to video pixels here
+            const offsetX = ((adjustments.x || 0) * canvas.width) / 2;
+            const offsetY = (-(adjustments.y || 0) * canvas.height) / 2;
+            const angle = (position.angle || 0) - (adjustments.rotZ || 0);
+
+            const centerX = position.x + position.width / 2 + offsetX;
+            const centerY = position.y + position.height / 2 + offsetY;
+            const width = position.width * scale;
+            const height = position.height * scale;
+
+            ctx.save();
+            ctx.translate(centerX, centerY);
+            ctx.rotate(angle);
+            ctx.drawImage(image, -width / 2, -height / 2, width, height);
+            ctx.restore();
+          });
+
+          if (debug) {
+            const box = detection.detection.box;
+            ctx.strokeStyle = "#00ff00";
+            ctx.lineWidth = 2;
+            ctx.strokeRect(box.x, box.y, box.width, box.height);
+
+            ctx.fillStyle = "#ff0000";
+            detection.landmarks.positions.forEach((point) => {
+              ctx.fillRect(point.x - 1.5, point.y - 1.5, 3, 3);
+            });
+          }
+        });
+      };
+
+      if (smoother) {
+        const loop = (now: number) => {
+          draw(smoother.sample(now));
+          cancelFrame = requestFrame(loop);
+        };
+        cancelFrame = requestFrame(loop);
+      } else {
+        draw(detections);
+      }
+
+      return () => {
+        cancelFrame();
+      };
+    }, [
+      detections,
+      selectedFilters,
+      images,
+      dimensions,
+      debug,
+      positionAdjustments,
+      smoother,
+      onFacesRendered,
+    ]);
+
+    return (
+      <canvas
+        ref={canvasRef}
+        width={dimensions.width}
+        height={dimensions.height}
+        className={`absolute inset-0 w-full h-full object-cover pointer-events-none ${className}`}
+        style={{
+          zIndex: 10,
+          transform: isVideoMirrored ? "scaleX(-1)" : "none",
+        }}
+      />
+    );
+  }
+);
+
+Filter2DOverlay.displayName = "Filter2DOverlay";
+
+export default Filter2DOverlay;
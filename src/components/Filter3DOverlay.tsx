@@ -8,7 +8,34 @@ import React, {
 import * as THREE from "three";
 import * as faceapi from "face-api.js";
 import { Filter } from "../types/Filter";
+import type {
+  FaceAnchor,
+  Filter3DPosition,
+  FilterAdjustment,
+  ModelLoadStatus,
+} from "../types/Filter";
+import CalibrationGizmo from "./CalibrationGizmo";
 import { FilterModels } from "../utils/FilterModels";
+import { getDefaultAdjustment } from "../utils/filterRegistry";
+import { disposeFilterModel, loadFilterModel } from "../utils/modelAssets";
+import { PoseSmoother } from "../utils/landmarkSmoothing";
+import type { DetectionSmoother } from "../utils/landmarkSmoothing";
+import {
+  CANONICAL_EYE_DISTANCE,
+  estimateHeadPose,
+  toSceneRotation,
+} from "../utils/poseEstimation";
+import type { HeadPose } from "../utils/poseEstimation";
+import {
+  fovFromFocalLength,
+  resolveFocalLength,
+} from "../utils/cameraProjection";
+import type { ProjectionMode } from "../types/Projection";
+import type { OverlayRenderer } from "../types/Capture";
+import type { FrameSource } from "../types/InputSource";
+import { getFrameSize, onFrameSizeChange } from "../utils/frameSource";
+import { requestFrame } from "../utils/frameClock";
+import { SMOOTHING_OPTIONS } from "../constants";
 
 interface Filter3DOverlayProps {
   detections:
@@ -17,35 +44,83 @@ interface Filter3DOverlayProps {
         faceapi.FaceLandmarks68
       >[]
     | null;
-  videoElement: HTMLVideoElement | null;
+  source: FrameSource | null; // Camera, uploaded video or photo
   selectedFilters: Filter[];
   className?: string;
   debug?: boolean;
-  positionAdjustments?: Record<string, any>;
-  isVideoMirrored?: boolean;
+  positionAdjustments?: Record<string, Partial<FilterAdjustment>>;
+  isVideoMirrored?: boolean; // Flip the preview along with the video
+  smoother?: DetectionSmoother;
+  onFacesRendered?: (count: number) => void;
+  pixelRatio?: number;
+  antialias?: boolean;
+  projection?: ProjectionMode;
+  focalLength?: number; // Video pixels, derived from the resolution if unset
+  showOccluder?: boolean; // Draw the head occluder as a wireframe
+  onModelStatusChange?: (filterId: string, status: ModelLoadStatus) => void;
+  snapshotRef?: React.Ref<OverlayRenderer>; // Renders the scene for captures
+  editFilterId?: string | null; // Selected filter showing calibration handles
+  onAdjustmentChange?: (filterId: string, adjustment: FilterAdjustment) => void;
+  onAdjustmentStart?: () => void; // A drag on the handles begins
+  onAdjustmentEnd?: () => void; // And ends
 }
 
 const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
   (
     {
       detections,
-      videoElement,
+      source,
       selectedFilters,
       className = "",
       debug = false,
       positionAdjustments = {},
       isVideoMirrored = true,
+      smoother,
+      onFacesRendered,
+      pixelRatio = 1,
+      antialias = true,
+      projection = "orthographic",
+      focalLength,
+      showOccluder = false,
+      onModelStatusChange,
+      snapshotRef,
+      editFilterId = null,
+      onAdjustmentChange,
+      onAdjustmentStart,
+      onAdjustmentEnd,
     },
     ref
   ) => {
     const mountRef = useRef<HTMLDivElement>(null);
-    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const gizmoRef = useRef<HTMLDivElement>(null);
     const sceneRef = useRef<THREE.Scene | null>(null);
     const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-    const cameraRef = useRef<THREE.OrthographicCamera | null>(null);
-    const filtersRef = useRef<Map<string, THREE.Group>>(new Map());
+    const cameraRef = useRef<
+      THREE.OrthographicCamera | THREE.PerspectiveCamera | null
+    >(null);
+    // One template model per filter id, cloned for every tracked face
+    const templatesRef = useRef<Map<string, THREE.Group>>(new Map());
+    // Filters whose glTF asset is still downloading
+    const pendingModelsRef = useRef<Set<string>>(new Set());
+    const selectedFiltersRef = useRef(selectedFilters);
+    // Pooled per-face filter instances, indexed by face slot
+    const facePoolRef = useRef<Map<string, THREE.Group>[]>([]);
+    // Depth-only head per face slot, cloned from one template per scene
+    const occluderTemplateRef = useRef<THREE.Group | null>(null);
+    const occluderPoolRef = useRef<THREE.Group[]>([]);
+    const renderedFacesRef = useRef(0);
     const debugGroupRef = useRef<THREE.Group | null>(null);
-    const animationRef = useRef<number>(0);
+    const cancelFrameRef = useRef<(() => void) | null>(null);
+    const poseSmoothersRef = useRef<PoseSmoother[]>([]);
+    const posesRef = useRef<(HeadPose | null)[]>([]);
+    // Scene update of the running render loop, reused for offline frames
+    const updateSceneRef = useRef<
+      | ((
+          frameDetections: Filter3DOverlayProps["detections"],
+          now?: number
+        ) => void)
+      | null
+    >(null);
     const [dimensions, setDimensions] = useState({
       width: 0,
       height: 0,
@@ -53,10 +128,7 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
       videoHeight: 0,
     });
 
-    // Expose canvas ref to parent component
-    useImperativeHandle(ref, () => canvasRef.current!, []);
-
-    // Initialize Three.js scene with orthographic camera for better 2D overlay
+    // Initialize Three.js scene with the selected camera projection
     useEffect(() => {
       if (
         !mountRef.current ||
@@ -68,26 +140,36 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
       // Scene setup
       const scene = new THREE.Scene();
       sceneRef.current = scene;
+      const templates = templatesRef.current;
+      const pendingModels = pendingModelsRef.current;
 
-      // Use orthographic camera for better 2D positioning
+      // Orthographic keeps filters flat on the video; perspective sits at the
+      // webcam's position and is configured in the camera effect below
       const aspect = dimensions.width / dimensions.height;
       const frustumSize = 2;
-      const camera = new THREE.OrthographicCamera(
-        (-frustumSize * aspect) / 2, // left
-        (frustumSize * aspect) / 2, // right
-        frustumSize / 2, // top
-        -frustumSize / 2, // bottom
-        0.1, // near
-        10 // far
-      );
-      camera.position.set(0, 0, 1);
-      camera.lookAt(0, 0, 0);
-      cameraRef.current = camera;
+      if (projection === "perspective") {
+        const camera = new THREE.PerspectiveCamera(50, aspect, 0.01, 100);
+        camera.position.set(0, 0, 0);
+        camera.lookAt(0, 0, -1);
+        cameraRef.current = camera;
+      } else {
+        const camera = new THREE.OrthographicCamera(
+          (-frustumSize * aspect) / 2, // left
+          (frustumSize * aspect) / 2, // right
+          frustumSize / 2, // top
+          -frustumSize / 2, // bottom
+          0.1, // near
+          10 // far
+        );
+        camera.position.set(0, 0, 1);
+        camera.lookAt(0, 0, 0);
+        cameraRef.current = camera;
+      }
 
       // Renderer setup
       const renderer = new THREE.WebGLRenderer({
         alpha: true,
-        antialias: true,
+        antialias,
         preserveDrawingBuffer: true,
       });
       renderer.setSize(dimensions.width, dimensions.height);
@@ -100,6 +182,8 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
       const lights = FilterModels.createLighting();
       lights.forEach((light) => scene.add(light));
 
+      occluderTemplateRef.current = FilterModels.createHeadOccluder();
+
       // Debug helpers
       if (debug) {
         const debugGroup = new THREE.Group();
@@ -110,9 +194,18 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
       // Mount canvas
       if (mountRef.current) {
         mountRef.current.appendChild(renderer.domElement);
-        canvasRef.current = renderer.domElement;
       }
 
+      // Expose the canvas to the parent, it changes with every rebuild
+      const exposeCanvas = (canvas: HTMLCanvasElement | null) => {
+        if (typeof ref === "function") {
+          ref(canvas);
+        } else if (ref) {
+          ref.current = canvas;
+        }
+      };
+      exposeCanvas(renderer.domElement);
+
       return () => {
         if (
           mountRef.current &&
@@ -121,22 +214,90 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
         ) {
           mountRef.current.removeChild(renderer.domElement);
         }
+        exposeCanvas(null);
         renderer.dispose();
         scene.clear();
+
+        // Models belong to the old scene, rebuild them for the next one
+        templates.forEach((template) => disposeFilterModel(template));
+        templates.clear();
+        pendingModels.clear();
+        facePoolRef.current = [];
+        if (occluderTemplateRef.current) {
+          FilterModels.dispose(occluderTemplateRef.current);
+          occluderTemplateRef.current = null;
+        }
+        occluderPoolRef.current = [];
       };
-    }, [dimensions, debug]);
+    }, [dimensions, debug, antialias, projection, ref]);
 
-    // Update dimensions when video changes
+    // Apply the pixel ratio without recreating the renderer, and again
+    // whenever the renderer is rebuilt
     useEffect(() => {
-      if (!videoElement) return;
+      const renderer = rendererRef.current;
+      if (!renderer || dimensions.width === 0) return;
+
+      renderer.setPixelRatio(pixelRatio);
+      renderer.setSize(dimensions.width, dimensions.height);
+    }, [pixelRatio, dimensions, debug, antialias, projection]);
+
+    // Renders the current scene at the capture size. The camera keeps the
+    // on-screen aspect so the result lines up like the scaled-up canvas
+    // did. Rendering and restoring happen in one task, so the resized
+    // drawing buffer is never shown.
+    useImperativeHandle(snapshotRef, () => {
+      const renderAt = (width: number, height: number) => {
+        const renderer = rendererRef.current;
+        const scene = sceneRef.current;
+        const camera = cameraRef.current;
+        if (!renderer || !scene || !camera || dimensions.width === 0) {
+          return null;
+        }
+
+        const output = document.createElement("canvas");
+        output.width = width;
+        output.height = height;
+        const ctx = output.getContext("2d");
+        if (!ctx) return null;
+
+        const maxSize = renderer.capabilities.maxTextureSize;
+        const scale = Math.min(1, maxSize / Math.max(width, height));
+        renderer.setPixelRatio(1);
+        renderer.setSize(
+          Math.round(width * scale),
+          Math.round(height * scale),
+          false
+        );
+        renderer.render(scene, camera);
+        ctx.drawImage(renderer.domElement, 0, 0, width, height);
+
+        renderer.setPixelRatio(pixelRatio);
+        renderer.setSize(dimensions.width, dimensions.height);
+        renderer.render(scene, camera);
+        return output;
+      };
+
+      return {
+        renderAt,
+        // Offline frames are posed from their own detections, unsmoothed
+        renderDetections: (detections, width, height) => {
+          if (!updateSceneRef.current) return null;
+          updateSceneRef.current(detections);
+          return renderAt(width, height);
+        },
+      };
+    }, [dimensions, pixelRatio]);
+
+    // Update dimensions when the source changes
+    useEffect(() => {
+      if (!source) return;
 
       const updateDimensions = () => {
-        // Use the video's actual video dimensions for face detection coordinate mapping
-        const videoWidth = videoElement.videoWidth;
-        const videoHeight = videoElement.videoHeight;
+        // Use the source's own size for face detection coordinate mapping
+        const { width: videoWidth, height: videoHeight } = getFrameSize(source);
 
         // Use the displayed dimensions for canvas sizing
-        const rect = videoElement.getBoundingClientRect();
+        const rect = source.getBoundingClientRect();
         const displayWidth = rect.width;
         const displayHeight = rect.height;
 
@@ -159,25 +320,23 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
         }
       };
 
-      // Update dimensions immediately if video is ready
-      if (videoElement.readyState >= 2) {
-        updateDimensions();
-      }
+      // Update dimensions immediately if the source is ready
+      updateDimensions();
 
-      // Listen for video metadata changes
-      videoElement.addEventListener("loadedmetadata", updateDimensions);
+      // Listen for size changes of the frames
+      const unsubscribe = onFrameSizeChange(source, updateDimensions);
 
       // Also listen for resize events
       const resizeObserver = new ResizeObserver(updateDimensions);
-      resizeObserver.observe(videoElement);
+      resizeObserver.observe(source);
 
       return () => {
-        videoElement.removeEventListener("loadedmetadata", updateDimensions);
+        unsubscribe();
         resizeObserver.disconnect();
       };
-    }, [videoElement]);
+    }, [source]);
 
-    // Update camera when dimensions change
+    // Update camera when dimensions or the webcam calibration change
     useEffect(() => {
       if (rendererRef.current && cameraRef.current && dimensions.width > 0) {
         const renderer = rendererRef.current;
@@ -185,66 +344,157 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
 
         renderer.setSize(dimensions.width, dimensions.height);
 
-        // Update orthographic camera
         const aspect = dimensions.width / dimensions.height;
-        const frustumSize = 2;
-        camera.left = (-frustumSize * aspect) / 2;
-        camera.right = (frustumSize * aspect) / 2;
-        camera.top = frustumSize / 2;
-        camera.bottom = -frustumSize / 2;
+        if (camera instanceof THREE.PerspectiveCamera) {
+          // Match the webcam's vertical field of view
+          camera.fov = fovFromFocalLength(
+            resolveFocalLength(
+              focalLength,
+              dimensions.videoWidth || dimensions.width
+            ),
+            dimensions.videoHeight || dimensions.height
+          );
+          camera.aspect = aspect;
+        } else {
+          // Update orthographic camera
+          const frustumSize = 2;
+          camera.left = (-frustumSize * aspect) / 2;
+          camera.right = (frustumSize * aspect) / 2;
+          camera.top = frustumSize / 2;
+          camera.bottom = -frustumSize / 2;
+        }
         camera.updateProjectionMatrix();
       }
-    }, [dimensions]);
+    }, [dimensions, projection, focalLength]);
 
     // Create and manage 3D filter models
     useEffect(() => {
+      selectedFiltersRef.current = selectedFilters;
       if (!sceneRef.current) return;
 
       const scene = sceneRef.current;
 
-      // Remove old filters
-      filtersRef.current.forEach((filterGroup, filterId) => {
+      // Remove old filters from every face and release their resources
+      templatesRef.current.forEach((template, filterId) => {
         if (!selectedFilters.some((f) => f.id === filterId)) {
-          scene.remove(filterGroup);
-          filtersRef.current.delete(filterId);
+          facePoolRef.current.forEach((faceFilters) => {
+            const instance = faceFilters.get(filterId);
+            if (instance) scene.remove(instance);
+            faceFilters.delete(filterId);
+          });
+          disposeFilterModel(template);
+          templatesRef.current.delete(filterId);
         }
       });
 
       // Add new filters
       selectedFilters.forEach((filter) => {
-        if (!filtersRef.current.has(filter.id)) {
-          let filterModel: THREE.Group;
-
-          switch (filter.id) {
-            case "glasses":
-              filterModel = FilterModels.createGlasses();
-              break;
-            case "hat":
-              filterModel = FilterModels.createHat();
-              break;
-            case "beard":
-              filterModel = FilterModels.createBeard();
-              break;
-            case "mustache":
-              filterModel = FilterModels.createMustache();
-              break;
-            default:
-              return;
-          }
+        if (
+          templatesRef.current.has(filter.id) ||
+          pendingModelsRef.current.has(filter.id)
+        ) {
+          return;
+        }
 
-          filterModel.visible = false;
-          scene.add(filterModel);
-          filtersRef.current.set(filter.id, filterModel);
+        if (!filter.model) {
+          const filterModel = filter.createModel?.();
+          if (filterModel) templatesRef.current.set(filter.id, filterModel);
+          return;
         }
+
+        // Load the asset, falling back to the procedural model on failure
+        pendingModelsRef.current.add(filter.id);
+        onModelStatusChange?.(filter.id, "loading");
+
+        loadFilterModel(filter.model)
+          .then((filterModel) => ({
+            filterModel: filterModel as THREE.Group | null,
+            status: "loaded" as ModelLoadStatus,
+          }))
+          .catch((error) => {
+            console.warn(
+              `⚠️ Failed to load model for ${filter.name}, using built-in model:`,
+              error
+            );
+            return {
+              filterModel: filter.createModel?.() ?? null,
+              status: "fallback" as ModelLoadStatus,
+            };
+          })
+          .then(({ filterModel, status }) => {
+            // Drop the result if the scene was rebuilt or the filter was
+            // deselected while it loaded
+            const stillWanted =
+              sceneRef.current === scene &&
+              pendingModelsRef.current.has(filter.id) &&
+              selectedFiltersRef.current.some((f) => f.id === filter.id);
+            if (sceneRef.current === scene) {
+              pendingModelsRef.current.delete(filter.id);
+            }
+
+            if (!filterModel) return;
+            if (!stillWanted) {
+              disposeFilterModel(filterModel);
+              return;
+            }
+            templatesRef.current.set(filter.id, filterModel);
+            onModelStatusChange?.(filter.id, status);
+          });
       });
-    }, [selectedFilters]);
+    }, [
+      selectedFilters,
+      dimensions,
+      debug,
+      antialias,
+      projection,
+      onModelStatusChange,
+    ]);
+
+    // Get (or clone from the template) the instance of a filter for a face
+    const acquireFaceFilter = (
+      faceIndex: number,
+      filterId: string
+    ): THREE.Group | null => {
+      const scene = sceneRef.current;
+      const template = templatesRef.current.get(filterId);
+      if (!scene || !template) return null;
+
+      if (!facePoolRef.current[faceIndex]) {
+        facePoolRef.current[faceIndex] = new Map();
+      }
+      const faceFilters = facePoolRef.current[faceIndex];
+
+      let instance = faceFilters.get(filterId);
+      if (!instance) {
+        // Clones share geometry and materials with the template
+        instance = template.clone();
+        instance.visible = false;
+        scene.add(instance);
+        faceFilters.set(filterId, instance);
+      }
+      return instance;
+    };
+
+    // Get (or clone) the head occluder for a face
+    const acquireOccluder = (faceIndex: number): THREE.Group | null => {
+      const scene = sceneRef.current;
+      const template = occluderTemplateRef.current;
+      if (!scene || !template) return null;
+
+      let occluder = occluderPoolRef.current[faceIndex];
+      if (!occluder) {
+        occluder = template.clone();
+        scene.add(occluder);
+        occluderPoolRef.current[faceIndex] = occluder;
+      }
+      return occluder;
+    };
 
-    // Improved face-to-3D coordinate mapping with proper 3D rotation
+    // Map a face to scene space, with head rotation from a PnP pose solve
     const mapFaceTo3D = (
       landmarks: faceapi.FaceLandmarks68,
-      detection: any
+      faceIndex: number
     ) => {
-      const box = detection.detection.box;
       const positions = landmarks.positions;
 
       // Get key landmark points
@@ -257,11 +507,6 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
       const leftJaw = landmarks.getJawOutline()[0];
       const rightJaw = landmarks.getJawOutline()[16];
 
-      // Check if video is mirrored
-      const isVideoMirroredState =
-        isVideoMirrored ??
-        (videoElement?.style.transform.includes("scaleX(-1)") || false);
-
       // Use video dimensions for face detection coordinates
       const videoWidth = dimensions.videoWidth || dimensions.width;
       const videoHeight = dimensions.videoHeight || dimensions.height;
@@ -275,44 +520,35 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
       const faceHeight = Math.abs(chin.y - forehead.y);
       const jawWidth = Math.abs(rightJaw.x - leftJaw.x);
 
-      // Improved scale calculation - use face width as primary reference
-      const baseScale = faceWidth / 200; // More intuitive scaling based on face width
-
-      // Calculate 3D rotations
-
-      // 1. Roll (Z-axis) - Head tilt left/right
-      let rollAngle = Math.atan2(
-        rightEye.y - leftEye.y,
-        rightEye.x - leftEye.x
+      // Fit the canonical head model to the landmarks. Detection runs in
+      // unmirrored video space, the same space this overlay draws in.
+      const camera = {
+        focalLength: resolveFocalLength(focalLength, videoWidth),
+        centerX: videoWidth / 2,
+        centerY: videoHeight / 2,
+      };
+      const pose = estimateHeadPose(
+        positions,
+        camera,
+        posesRef.current[faceIndex]
       );
-      if (isVideoMirroredState) {
-        rollAngle = -rollAngle;
-      }
 
-      // 2. Yaw (Y-axis) - Head turn left/right
-      // Estimate from face symmetry and eye positions
-      const eyeCenter = (leftEye.x + rightEye.x) / 2;
-      const faceCenter = noseTip.x;
-      const jawCenter = (leftJaw.x + rightJaw.x) / 2;
+      // Don't warm-start the next frame from a fit that went wrong
+      posesRef.current[faceIndex] = pose.error < faceWidth * 0.15 ? pose : null;
 
-      // Calculate asymmetry to estimate head turn
-      const faceAsymmetry = (eyeCenter - faceCenter) / faceWidth;
-      const jawAsymmetry = (jawCenter - faceCenter) / jawWidth;
-      const avgAsymmetry = (faceAsymmetry + jawAsymmetry) / 2;
+      const quaternion = toSceneRotation(pose);
+      const euler = new THREE.Euler().setFromQuaternion(quaternion);
 
-      let yawAngle = avgAsymmetry * Math.PI * 0.3; // Max 54 degrees
-      if (isVideoMirroredState) {
-        yawAngle = -yawAngle;
-      }
-
-      // 3. Pitch (X-axis) - Head nod up/down
-      // Estimate from nose position relative to eye line
-      const eyeLineY = (leftEye.y + rightEye.y) / 2;
-      const noseOffsetY = noseTip.y - eyeLineY;
-      const normalNoseOffset = faceHeight * 0.3; // Normal nose position below eyes
+      // Scale from depth rather than the projected eye distance, so turning
+      // the head doesn't shrink the filters
+      const frontalEyeDistance =
+        (camera.focalLength * CANONICAL_EYE_DISTANCE) / pose.translation.z;
+      const baseScale = frontalEyeDistance / 200;
 
-      const pitchFactor = (noseOffsetY - normalNoseOffset) / faceHeight;
-      const pitchAngle = pitchFactor * Math.PI * 0.2; // Max 36 degrees
+      // Scene units per millimetre at the face, for geometry built to the
+      // canonical head model (one unit is half the video height)
+      const millimetreScale =
+        camera.focalLength / pose.translation.z / (videoHeight / 2);
 
       return {
         center: {
@@ -322,10 +558,14 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
         },
         scale: baseScale,
         rotation: {
-          x: pitchAngle, // Pitch (nod up/down)
-          y: yawAngle, // Yaw (turn left/right)
-          z: rollAngle, // Roll (tilt left/right)
+          x: euler.x, // Pitch (nod up/down)
+          y: euler.y, // Yaw (turn left/right)
+          z: euler.z, // Roll (tilt left/right)
         },
+        pose,
+        millimetreScale,
+        depth: pose.translation.z / 1000, // Metres from the webcam
+        points: positions,
         landmarks: {
           leftEye,
           rightEye,
@@ -339,76 +579,49 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
           faceHeight,
           jawWidth,
         },
-        isVideoMirrored: isVideoMirroredState,
         videoWidth,
         videoHeight,
       };
     };
 
-    // Get specific position for each filter type with proper scaling
-    const getFilterPosition = (filterId: string, faceData: any) => {
-      const { center, scale, rotation, landmarks, videoWidth, videoHeight } =
-        faceData;
-
-      switch (filterId) {
-        case "glasses":
-          // Position at eye level using video coordinates
-          const eyeCenterX = (landmarks.leftEye.x + landmarks.rightEye.x) / 2;
-          const eyeCenterY = (landmarks.leftEye.y + landmarks.rightEye.y) / 2;
-
-          const glassesX = (eyeCenterX / videoWidth) * 2 - 1;
-          const glassesY = -((eyeCenterY / videoHeight) * 2 - 1);
-
-          return {
-            x: glassesX,
-            y: glassesY,
-            z: 0.01,
-            scale: scale * 0.8, // Proportional to face width
-            rotation: rotation,
-          };
-
-        case "hat":
-          // Position above forehead
-          const hatY = landmarks.forehead.y - landmarks.faceHeight * 0.6;
-          return {
-            x: center.x,
-            y: -((hatY / videoHeight) * 2 - 1),
-            z: -0.02,
-            scale: scale * 1.2, // Larger for hat
-            rotation: rotation,
-          };
-
-        case "beard":
-          // Position below mouth area
-          const beardY = landmarks.chin.y + landmarks.faceHeight * 0.05;
-          return {
-            x: center.x,
-            y: -((beardY / videoHeight) * 2 - 1),
-            z: 0.01,
-            scale: scale * 1.0, // Similar to face width
-            rotation: rotation,
-          };
-
-        case "mustache":
-          // Position between nose and mouth
-          const mustacheY = landmarks.noseTip.y + landmarks.faceHeight * 0.2;
-          return {
-            x: center.x,
-            y: -((mustacheY / videoHeight) * 2 - 1),
-            z: 0.02,
-            scale: scale * 0.6, // Smaller mustache
-            rotation: rotation,
-          };
-
-        default:
-          return {
-            x: center.x,
-            y: center.y,
-            z: center.z,
-            scale: scale,
-            rotation: rotation,
-          };
-      }
+    // Place a filter with its definition's anchor, or at the face center,
+    // turned with the head
+    const getFilterPosition = (filter: Filter, faceData: FaceAnchor) => {
+      const placement: Filter3DPosition = filter.position3D?.(faceData) ?? {
+        ...faceData.center,
+        scale: faceData.scale,
+      };
+
+      return {
+        x: placement.x,
+        y: placement.y,
+        z: placement.z,
+        scale: placement.scale,
+        rotation: {
+          x: faceData.rotation.x + (placement.rotationX ?? 0),
+          y: faceData.rotation.y + (placement.rotationY ?? 0),
+          z: faceData.rotation.z + (placement.rotationZ ?? 0),
+        },
+      };
+    };
+
+    // In perspective mode, push a position from the orthographic layout out
+    // to the face's real depth. Scaling by depth * tan(fov / 2) keeps the
+    // anchor point and apparent size, so only the foreshortening changes.
+    const toSceneSpace = (
+      position: { x: number; y: number; z: number; scale: number },
+      depth: number
+    ) => {
+      const camera = cameraRef.current;
+      if (!(camera instanceof THREE.PerspectiveCamera)) return position;
+
+      const unit = depth * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2);
+      return {
+        x: position.x * unit,
+        y: position.y * unit,
+        z: -depth + position.z * unit,
+        scale: position.scale * unit,
+      };
     };
 
     // Create debug visualization
@@ -421,7 +634,12 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
       const centerGeometry = new THREE.SphereGeometry(0.05, 8, 8);
       const centerMaterial = new THREE.MeshBasicMaterial({ color: 0xff0000 });
       const centerSphere = new THREE.Mesh(centerGeometry, centerMaterial);
-      centerSphere.position.set(faceData.center.x, faceData.center.y, 0);
+      const center = toSceneSpace(
+        { ...faceData.center, scale: 1 },
+        faceData.depth
+      );
+      centerSphere.position.set(center.x, center.y, center.z);
+      centerSphere.scale.setScalar(center.scale);
       debugGroupRef.current.add(centerSphere);
 
       // Log debug info
@@ -433,6 +651,11 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
       });
     };
 
+    // Clear the parent's face count when the overlay goes away
+    useEffect(() => {
+      return () => onFacesRendered?.(0);
+    }, [onFacesRendered]);
+
     // Animation and rendering loop
     useEffect(() => {
       if (!rendererRef.current || !sceneRef.current || !cameraRef.current)
@@ -442,18 +665,67 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
       const scene = sceneRef.current;
       const camera = cameraRef.current;
 
-      const animate = () => {
-        // Hide all filters first
-        filtersRef.current.forEach((filterGroup) => {
-          filterGroup.visible = false;
+      // Poses the pooled filters for the given faces. Pose angles are only
+      // smoothed when given the time of a live frame.
+      const updateScene = (
+        frameDetections: Filter3DOverlayProps["detections"],
+        now?: number
+      ) => {
+        // Hide all pooled filters first, faces that left keep their
+        // instances for reuse when a face appears again
+        facePoolRef.current.forEach((faceFilters) => {
+          faceFilters.forEach((filterGroup) => {
+            filterGroup.visible = false;
+          });
+        });
+        occluderPoolRef.current.forEach((occluder) => {
+          occluder.visible = false;
         });
+        let renderedFaces = 0;
 
         // Process detections
-        if (detections && detections.length > 0) {
-          detections.forEach((detection, faceIndex) => {
+        if (frameDetections && frameDetections.length > 0) {
+          frameDetections.forEach((detection, faceIndex) => {
             if (detection.detection.score < 0.7) return;
+            renderedFaces++;
 
-            const faceData = mapFaceTo3D(detection.landmarks, detection);
+            const faceData = mapFaceTo3D(detection.landmarks, faceIndex);
+
+            // Filter pose angles per face to remove residual jitter
+            if (now !== undefined && smoother && SMOOTHING_OPTIONS.enabled) {
+              if (!poseSmoothersRef.current[faceIndex]) {
+                poseSmoothersRef.current[faceIndex] = new PoseSmoother(
+                  SMOOTHING_OPTIONS.pose
+                );
+              }
+              faceData.rotation = poseSmoothersRef.current[faceIndex].filter(
+                faceData.rotation,
+                now
+              );
+            }
+
+            // Pose the head occluder from the same face data as the filters
+            const occluder = acquireOccluder(faceIndex);
+            if (occluder) {
+              const occluderPosition = toSceneSpace(
+                { ...faceData.center, scale: faceData.millimetreScale },
+                faceData.depth
+              );
+              occluder.position.set(
+                occluderPosition.x,
+                occluderPosition.y,
+                occluderPosition.z
+              );
+              occluder.rotation.set(
+                faceData.rotation.x,
+                faceData.rotation.y,
+                faceData.rotation.z
+              );
+              occluder.scale.setScalar(occluderPosition.scale);
+              const wireframe = occluder.getObjectByName("wireframe");
+              if (wireframe) wireframe.visible = showOccluder;
+              occluder.visible = true;
+            }
 
             // Update debug visualization for first face
             if (faceIndex === 0) {
@@ -462,13 +734,16 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
 
             // Position filters for this face
             selectedFilters.forEach((filter) => {
-              const filterGroup = filtersRef.current.get(filter.id);
+              const filterGroup = acquireFaceFilter(faceIndex, filter.id);
               if (!filterGroup) return;
 
-              const filterPos = getFilterPosition(filter.id, faceData);
+              const filterPos = getFilterPosition(filter, faceData);
 
               // Apply calibration adjustments
-              const adjustments = positionAdjustments[filter.id] || {};
+              const adjustments = {
+                ...filter.defaultAdjustment,
+                ...positionAdjustments[filter.id],
+              };
               const finalPosition = {
                 x: filterPos.x + (adjustments.x || 0),
                 y: filterPos.y + (adjustments.y || 0),
@@ -482,51 +757,149 @@ const Filter3DOverlay = forwardRef<HTMLCanvasElement, Filter3DOverlayProps>(
               };
 
               // Apply transformations
+              const scenePosition = toSceneSpace(finalPosition, faceData.depth);
               filterGroup.position.set(
-                finalPosition.x,
-                finalPosition.y,
-                finalPosition.z
+                scenePosition.x,
+                scenePosition.y,
+                scenePosition.z
               );
               filterGroup.rotation.set(
                 finalPosition.rotation.x,
                 finalPosition.rotation.y,
                 finalPosition.rotation.z
               );
-              filterGroup.scale.setScalar(finalPosition.scale);
+              filterGroup.scale.setScalar(scenePosition.scale);
               filterGroup.visible = true;
-
-              // Add subtle animation
-              if (filter.id === "hat") {
-                const time = Date.now() * 0.001;
-                filterGroup.position.y += Math.sin(time) * 0.02;
-              }
             });
           });
         }
 
+        if (renderedFaces !== renderedFacesRef.current) {
+          renderedFacesRef.current = renderedFaces;
+          onFacesRendered?.(renderedFaces);
+        }
+
+        // Forget pose history for faces that left the frame
+        const visibleFaces = frameDetections?.length ?? 0;
+        poseSmoothersRef.current
+          .slice(visibleFaces)
+          .forEach((poseSmoother) => poseSmoother.reset());
+        posesRef.current.length = Math.min(
+          posesRef.current.length,
+          visibleFaces
+        );
+      };
+      updateSceneRef.current = updateScene;
+
+      // Frame the edited filter on the first face with its projected bounds
+      const bounds = new THREE.Box3();
+      const corner = new THREE.Vector3();
+      const placeGizmo = () => {
+        const gizmo = gizmoRef.current;
+        if (!gizmo) return;
+
+        const filterGroup = editFilterId
+          ? facePoolRef.current[0]?.get(editFilterId)
+          : undefined;
+        if (filterGroup?.visible) bounds.setFromObject(filterGroup);
+        if (!filterGroup?.visible || bounds.isEmpty()) {
+          gizmo.style.visibility = "hidden";
+          return;
+        }
+
+        let left = Infinity;
+        let top = Infinity;
+        let right = -Infinity;
+        let bottom = -Infinity;
+        for (let i = 0; i < 8; i++) {
+          corner
+            .set(
+              i & 1 ? bounds.max.x : bounds.min.x,
+              i & 2 ? bounds.max.y : bounds.min.y,
+              i & 4 ? bounds.max.z : bounds.min.z
+            )
+            .project(camera);
+          const x = ((corner.x + 1) / 2) * dimensions.width;
+          const y = ((1 - corner.y) / 2) * dimensions.height;
+          left = Math.min(left, x);
+          right = Math.max(right, x);
+          top = Math.min(top, y);
+          bottom = Math.max(bottom, y);
+        }
+
+        gizmo.style.left = `${left}px`;
+        gizmo.style.top = `${top}px`;
+        gizmo.style.width = `${right - left}px`;
+        gizmo.style.height = `${bottom - top}px`;
+        gizmo.style.visibility = "visible";
+      };
+
+      const animate = (now: number) => {
+        // Sample smoothed detections for this frame when a smoother is attached
+        updateScene(smoother ? smoother.sample(now) : detections, now);
+        placeGizmo();
+
         renderer.render(scene, camera);
-        animationRef.current = requestAnimationFrame(animate);
+        cancelFrameRef.current = requestFrame(animate);
       };
 
-      animationRef.current = requestAnimationFrame(animate);
+      cancelFrameRef.current = requestFrame(animate);
 
       return () => {
-        if (animationRef.current) {
-          cancelAnimationFrame(animationRef.current);
+        if (updateSceneRef.current === updateScene) {
+          updateSceneRef.current = null;
         }
+        cancelFrameRef.current?.();
+        cancelFrameRef.current = null;
       };
-    }, [detections, selectedFilters, dimensions, debug, positionAdjustments]);
+    }, [
+      detections,
+      selectedFilters,
+      dimensions,
+      debug,
+      positionAdjustments,
+      smoother,
+      onFacesRendered,
+      projection,
+      focalLength,
+      showOccluder,
+      editFilterId,
+    ]);
+
+    // Only takes pointer input while a filter is being edited on the video
+    const editFilter = onAdjustmentChange
+      ? selectedFilters.find((filter) => filter.id === editFilterId)
+      : undefined;
 
     return (
       <div
         ref={mountRef}
-        className={`absolute inset-0 pointer-events-none ${className}`}
+        className={`absolute inset-0 ${editFilter ? "" : "pointer-events-none"} ${className}`}
         style={{
           zIndex: 10,
           width: "100%",
           height: "100%",
+          // The scene is posed in unmirrored video space, like detection
+          transform: isVideoMirrored ? "scaleX(-1)" : "none",
         }}
-      />
+      >
+        {editFilter && onAdjustmentChange && (
+          <CalibrationGizmo
+            ref={gizmoRef}
+            adjustment={{
+              ...getDefaultAdjustment(editFilter),
+              ...positionAdjustments[editFilter.id],
+            }}
+            onChange={(adjustment) =>
+              onAdjustmentChange(editFilter.id, adjustment)
+            }
+            onChangeStart={onAdjustmentStart}
+            onChangeEnd={onAdjustmentEnd}
+            pixelsPerUnit={dimensions.height / 2}
+            mirrored={isVideoMirrored}
+          />
+        )}
+      </div>
     );
   }
 );
@@ -1,48 +1,83 @@
-import React, { useState } from "react";
+import React, { useRef } from "react";
+import type { Filter, FilterAdjustment } from "../types/Filter";
+import { getDefaultAdjustment } from "../utils/filterRegistry";
 
 interface FilterCalibrationProps {
-  onPositionChange: (filterId: string, adjustments: any) => void;
-  selectedFilters: any[];
+  adjustments: Record<string, FilterAdjustment>; // Filters the user changed
+  onPositionChange: (filterId: string, adjustment: FilterAdjustment) => void;
+  onSliderDragStart?: () => void;
+  onSliderDragEnd?: () => void;
+  isVideoMirrored: boolean;
+  onMirroredChange: (isVideoMirrored: boolean) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  editingFilterId?: string | null; // Filter with handles on the video
+  onEditFilter?: (filterId: string | null) => void; // Unset without 3D
+  selectedFilters: Filter[];
   isVisible: boolean;
   onToggle: () => void;
+  children?: React.ReactNode; // Extra settings shown above the filters
 }
 
 const FilterCalibration: React.FC<FilterCalibrationProps> = ({
+  adjustments: userAdjustments,
   onPositionChange,
+  onSliderDragStart,
+  onSliderDragEnd,
+  isVideoMirrored,
+  onMirroredChange,
+  onImport,
+  onExport,
+  editingFilterId = null,
+  onEditFilter,
   selectedFilters,
   isVisible,
   onToggle,
+  children,
 }) => {
-  const [adjustments, setAdjustments] = useState<Record<string, any>>({
-    glasses: { x: 0, y: 0, z: 0, scale: 1, rotX: 0, rotY: 0, rotZ: 0 },
-    hat: { x: 0, y: 0, z: 0, scale: 1, rotX: 0, rotY: 0, rotZ: 0 },
-    beard: { x: 0, y: 0, z: 0, scale: 1, rotX: 0, rotY: 0, rotZ: 0 },
-    mustache: { x: 0, y: 0, z: 0, scale: 1, rotX: 0, rotY: 0, rotZ: 0 },
-  });
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Filters start from their registered default calibration
+  const adjustments: Record<string, FilterAdjustment> = Object.fromEntries(
+    selectedFilters.map((filter) => [
+      filter.id,
+      userAdjustments[filter.id] ?? getDefaultAdjustment(filter),
+    ])
+  );
 
   const handleSliderChange = (
     filterId: string,
-    property: string,
+    property: keyof FilterAdjustment,
     value: number
   ) => {
-    const newAdjustments = {
-      ...adjustments,
-      [filterId]: {
-        ...adjustments[filterId],
-        [property]: value,
-      },
+    onPositionChange(filterId, {
+      ...adjustments[filterId],
+      [property]: value,
+    });
+  };
+
+  // A drag ends wherever the pointer is released, also off the slider
+  const handleSliderPointerDown = () => {
+    if (!onSliderDragStart) return;
+    onSliderDragStart();
+
+    const handleRelease = () => {
+      window.removeEventListener("pointerup", handleRelease);
+      window.removeEventListener("pointercancel", handleRelease);
+      onSliderDragEnd?.();
     };
-    setAdjustments(newAdjustments);
-    onPositionChange(filterId, newAdjustments[filterId]);
+    window.addEventListener("pointerup", handleRelease);
+    window.addEventListener("pointercancel", handleRelease);
   };
 
-  const resetFilter = (filterId: string) => {
-    const reset = { x: 0, y: 0, z: 0, scale: 1, rotX: 0, rotY: 0, rotZ: 0 };
-    setAdjustments((prev) => ({
-      ...prev,
-      [filterId]: reset,
-    }));
-    onPositionChange(filterId, reset);
+  const resetFilter = (filter: Filter) => {
+    onPositionChange(filter.id, getDefaultAdjustment(filter));
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) onImport(file);
   };
 
   if (!isVisible) {
@@ -69,20 +104,50 @@ const FilterCalibration: React.FC<FilterCalibrationProps> = ({
         </button>
       </div>
 
+      <label className="flex items-center gap-2 mb-4 text-sm">
+        <input
+          type="checkbox"
+          checked={isVideoMirrored}
+          onChange={(e) => onMirroredChange(e.target.checked)}
+        />
+        <span>Mirror camera</span>
+      </label>
+
+      {children}
+
       {selectedFilters.map((filter) => (
         <div key={filter.id} className="mb-6 p-3 border rounded">
           <div className="flex justify-between items-center mb-3">
             <h4 className="font-semibold">{filter.name}</h4>
-            <button
-              onClick={() => resetFilter(filter.id)}
-              className="text-xs bg-gray-200 px-2 py-1 rounded"
-            >
-              Reset
-            </button>
+            <div className="flex gap-1">
+              {onEditFilter && (
+                <button
+                  onClick={() =>
+                    onEditFilter(
+                      editingFilterId === filter.id ? null : filter.id
+                    )
+                  }
+                  className={`text-xs px-2 py-1 rounded ${
+                    editingFilterId === filter.id
+                      ? "bg-blue-500 text-white"
+                      : "bg-gray-200"
+                  }`}
+                  title="Move, scale and rotate the filter with handles on the video"
+                >
+                  ✋ Edit
+                </button>
+              )}
+              <button
+                onClick={() => resetFilter(filter)}
+                className="text-xs bg-gray-200 px-2 py-1 rounded"
+              >
+                Reset
+              </button>
+            </div>
           </div>
 
           {/* Position Controls */}
-          <div className="space-y-2">
+          <div className="space-y-2" onPointerDown={handleSliderPointerDown}>
             <div>
               <label className="text-xs text-gray-600">X Position</label>
               <input
@@ -229,6 +294,30 @@ const FilterCalibration: React.FC<FilterCalibrationProps> = ({
         </div>
       ))}
 
+      <div className="flex gap-2">
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="flex-1 text-xs bg-gray-200 px-2 py-1 rounded"
+          title="Load calibration exported earlier"
+        >
+          Import
+        </button>
+        <button
+          onClick={onExport}
+          className="flex-1 text-xs bg-gray-200 px-2 py-1 rounded"
+          title="Save calibration as a JSON file"
+        >
+          Export
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportFile}
+          className="hidden"
+        />
+      </div>
+
       <div className="mt-4 p-3 bg-gray-100 rounded text-xs">
         <p>
           <strong>Tips:</strong>
@@ -238,6 +327,9 @@ const FilterCalibration: React.FC<FilterCalibrationProps> = ({
           <li>Y: Down (-) / Up (+)</li>
           <li>Z: Back (-) / Forward (+)</li>
           <li>Use Reset to return to defaults</li>
+          {onEditFilter && (
+            <li>Edit shows handles on the video: drag, pinch or turn</li>
+          )}
         </ul>
       </div>
     </div>
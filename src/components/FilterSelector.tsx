@@ -1,10 +1,11 @@
-import React from "react";
+import React, { useRef, useState } from "react";
 import { Filter } from "../types/Filter";
 
 interface FilterSelectorProps {
   filters: Filter[];
   selectedFilters: Filter[];
   onFilterToggle: (filter: Filter) => void;
+  onImportManifest?: (file: File) => void; // JSON filter manifest
   className?: string;
 }
 
@@ -12,8 +13,12 @@ const FilterSelector: React.FC<FilterSelectorProps> = ({
   filters,
   selectedFilters,
   onFilterToggle,
+  onImportManifest,
   className = "",
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+
   // Group filters by category
   const filtersByCategory = filters.reduce<Record<string, Filter[]>>(
     (acc, filter) => {
@@ -30,9 +35,55 @@ const FilterSelector: React.FC<FilterSelectorProps> = ({
     return selectedFilters.some((f) => f.id === filter.id);
   };
 
+  // Accept manifests dropped anywhere on the panel
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    Array.from(e.dataTransfer.files).forEach((file) =>
+      onImportManifest?.(file)
+    );
+  };
+
   return (
-    <div className={`bg-white rounded-lg shadow-lg p-4 ${className}`}>
-      <h2 className="text-slate-900 text-lg font-bold mb-4">Filters</h2>
+    <div
+      className={`bg-white rounded-lg shadow-lg p-4 ${
+        isDragOver ? "ring-2 ring-blue-400" : ""
+      } ${className}`}
+      onDragOver={(e) => {
+        if (!onImportManifest) return;
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={onImportManifest ? handleDrop : undefined}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-slate-900 text-lg font-bold">Filters</h2>
+
+        {onImportManifest && (
+          <>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="text-xs bg-gray-200 text-gray-700 px-2 py-1 rounded"
+              title="Import a filter manifest (.json), or drop one here"
+            >
+              + Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                Array.from(e.target.files ?? []).forEach((file) =>
+                  onImportManifest(file)
+                );
+                e.target.value = "";
+              }}
+            />
+          </>
+        )}
+      </div>
 
       {Object.entries(filtersByCategory).map(([category, categoryFilters]) => (
         <div key={category} className="mb-6">
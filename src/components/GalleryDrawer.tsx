@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from "react";
+import type { CaptureKind, GalleryItem } from "../types/Gallery";
+import { useObjectUrl } from "../hooks/useObjectUrl";
+import { getFilter } from "../utils/filterRegistry";
+
+interface GalleryDrawerProps {
+  items: GalleryItem[];
+  isOpen: boolean;
+  onClose: () => void;
+  onDelete: (ids: string[]) => void;
+  onDownload: (ids: string[]) => void;
+  onShare: (id: string) => void;
+  canShare: boolean;
+  loadMedia: (id: string) => Promise<Blob>;
+  autoDownload: boolean;
+  onAutoDownloadChange: (enabled: boolean) => void;
+}
+
+const KIND_BADGES: Record<CaptureKind, string | null> = {
+  photo: null,
+  animation: "🎞️",
+  video: "🎬",
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.round(bytes / 1024)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const filterNames = (item: GalleryItem) =>
+  item.filterIds.map((id) => getFilter(id)?.name ?? id).join(", ") || "None";
+
+const Thumbnail: React.FC<{
+  item: GalleryItem;
+  isSelected: boolean;
+  onOpen: () => void;
+  onSelect: () => void;
+}> = ({ item, isSelected, onOpen, onSelect }) => {
+  const url = useObjectUrl(item.thumbnail);
+  const badge = KIND_BADGES[item.kind];
+
+  return (
+    <div
+      className={`relative aspect-square rounded overflow-hidden bg-gray-200 ${
+        isSelected ? "ring-2 ring-blue-500" : ""
+      }`}
+    >
+      <button onClick={onOpen} className="w-full h-full" title={item.filename}>
+        {url && <img src={url} alt="" className="w-full h-full object-cover" />}
+      </button>
+      {badge && (
+        <span className="absolute bottom-1 left-1 text-xs bg-black bg-opacity-50 rounded px-1">
+          {badge}
+        </span>
+      )}
+      <input
+        type="checkbox"
+        checked={isSelected}
+        onChange={onSelect}
+        className="absolute top-1 right-1"
+        aria-label={`Select ${item.filename}`}
+      />
+    </div>
+  );
+};
+
+const CaptureViewer: React.FC<{
+  item: GalleryItem;
+  loadMedia: (id: string) => Promise<Blob>;
+  canShare: boolean;
+  onClose: () => void;
+  onDownload: () => void;
+  onShare: () => void;
+  onDelete: () => void;
+}> = ({
+  item,
+  loadMedia,
+  canShare,
+  onClose,
+  onDownload,
+  onShare,
+  onDelete,
+}) => {
+  const [media, setMedia] = useState<Blob | null>(null);
+  const url = useObjectUrl(media);
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadMedia(item.id)
+      .then((blob) => {
+        if (!isCancelled) setMedia(blob);
+      })
+      .catch((error) => console.error("Error loading capture:", error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [item.id, loadMedia]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-lg max-w-3xl w-full max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="bg-black flex justify-center">
+          {url &&
+            (item.kind === "video" ? (
+              <video src={url} controls autoPlay loop className="max-h-96" />
+            ) : (
+              <img src={url} alt={item.filename} className="max-h-96" />
+            ))}
+        </div>
+
+        <div className="p-4 text-sm space-y-1">
+          <p>
+            <strong>Taken:</strong> {new Date(item.createdAt).toLocaleString()}
+          </p>
+          <p>
+            <strong>Size:</strong> {item.width}×{item.height},{" "}
+            {formatSize(item.size)}
+            {item.duration !== undefined &&
+              `, ${(item.duration / 1000).toFixed(1)}s`}
+          </p>
+          <p>
+            <strong>Filters:</strong> {filterNames(item)}
+          </p>
+          {Object.keys(item.calibration).length > 0 && (
+            <details>
+              <summary className="cursor-pointer">
+                <strong>Calibration</strong>
+              </summary>
+              <pre className="text-xs bg-gray-100 rounded p-2 mt-1 overflow-x-auto">
+                {JSON.stringify(item.calibration, null, 2)}
+              </pre>
+            </details>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 pt-0">
+          <button
+            onClick={onDelete}
+            className="text-sm bg-red-100 text-red-700 px-3 py-1 rounded"
+          >
+            Delete
+          </button>
+          <button
+            onClick={onShare}
+            className="text-sm bg-gray-200 px-3 py-1 rounded"
+          >
+            {canShare ? "Share" : "Save"}
+          </button>
+          <button
+            onClick={onDownload}
+            className="text-sm bg-blue-500 text-white px-3 py-1 rounded"
+          >
+            Download
+          </button>
+          <button
+            onClick={onClose}
+            className="text-sm bg-gray-200 px-3 py-1 rounded"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const GalleryDrawer: React.FC<GalleryDrawerProps> = ({
+  items,
+  isOpen,
+  onClose,
+  onDelete,
+  onDownload,
+  onShare,
+  canShare,
+  loadMedia,
+  autoDownload,
+  onAutoDownloadChange,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  // Drop selections for captures that no longer exist
+  const selected = selectedIds.filter((id) =>
+    items.some((item) => item.id === id)
+  );
+  const viewing = items.find((item) => item.id === viewingId);
+
+  if (!isOpen) return null;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]
+    );
+  };
+
+  const confirmDelete = (ids: string[]) => {
+    const label = ids.length === 1 ? "this capture" : `${ids.length} captures`;
+    if (!window.confirm(`Delete ${label}? This can't be undone.`)) return;
+    onDelete(ids);
+    setSelectedIds((prev) => prev.filter((id) => !ids.includes(id)));
+  };
+
+  return (
+    <>
+      <div className="fixed right-4 top-20 bottom-20 w-80 bg-white bg-opacity-95 rounded-lg shadow-lg p-4 flex flex-col z-50">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-bold">Gallery ({items.length})</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            ✕
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-gray-600 mb-3">
+          <input
+            type="checkbox"
+            checked={autoDownload}
+            onChange={(e) => onAutoDownloadChange(e.target.checked)}
+          />
+          Also download new captures automatically
+        </label>
+
+        {items.length > 0 && (
+          <div className="flex items-center gap-2 mb-3 text-xs">
+            <button
+              onClick={() =>
+                setSelectedIds(
+                  selected.length === items.length
+                    ? []
+                    : items.map((item) => item.id)
+                )
+              }
+              className="bg-gray-200 px-2 py-1 rounded"
+            >
+              {selected.length === items.length ? "Clear" : "Select all"}
+            </button>
+            <button
+              onClick={() => onDownload(selected)}
+              disabled={selected.length === 0}
+              className="bg-blue-500 text-white px-2 py-1 rounded disabled:opacity-50"
+            >
+              {selected.length > 1 ? "Download zip" : "Download"}
+            </button>
+            <button
+              onClick={() => confirmDelete(selected)}
+              disabled={selected.length === 0}
+              className="bg-red-100 text-red-700 px-2 py-1 rounded disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {items.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center mt-8">
+              Photos, loops and videos you capture show up here.
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              {items.map((item) => (
+                <Thumbnail
+                  key={item.id}
+                  item={item}
+                  isSelected={selected.includes(item.id)}
+                  onOpen={() => setViewingId(item.id)}
+                  onSelect={() => toggleSelected(item.id)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {viewing && (
+        <CaptureViewer
+          item={viewing}
+          loadMedia={loadMedia}
+          canShare={canShare}
+          onClose={() => setViewingId(null)}
+          onDownload={() => onDownload([viewing.id])}
+          onShare={() => onShare(viewing.id)}
+          onDelete={() => confirmDelete([viewing.id])}
+        />
+      )}
+    </>
+  );
+};
+
+export default GalleryDrawer;
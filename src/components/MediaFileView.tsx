@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useObjectUrl } from "../hooks/useObjectUrl";
+import type { FrameSource } from "../types/InputSource";
+
+interface MediaFileViewProps {
+  file: File; // An image or video the user picked
+  onSourceReady: (source: FrameSource) => void;
+  onClose: () => void;
+  onRender?: () => void; // Renders the video frame by frame, when possible
+  className?: string;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Shows an uploaded photo or video in place of the camera. Videos loop so
+ * the filters keep running, and can be paused and scrubbed.
+ */
+const MediaFileView: React.FC<MediaFileViewProps> = ({
+  file,
+  onSourceReady,
+  onClose,
+  onRender,
+  className = "",
+}) => {
+  const url = useObjectUrl(file);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const isVideo = file.type.startsWith("video/");
+
+  // Follow playback for the scrubber
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleTimeUpdate = () => setCurrentTime(video.currentTime);
+    const handleDuration = () => setDuration(video.duration || 0);
+    const handlePlayState = () => setIsPaused(video.paused);
+
+    video.addEventListener("timeupdate", handleTimeUpdate);
+    video.addEventListener("durationchange", handleDuration);
+    video.addEventListener("play", handlePlayState);
+    video.addEventListener("pause", handlePlayState);
+    return () => {
+      video.removeEventListener("timeupdate", handleTimeUpdate);
+      video.removeEventListener("durationchange", handleDuration);
+      video.removeEventListener("play", handlePlayState);
+      video.removeEventListener("pause", handlePlayState);
+    };
+  }, [url]);
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch((error) => console.error("Playback failed:", error));
+    } else {
+      video.pause();
+    }
+  };
+
+  const elementClassName = "absolute top-0 left-0 w-full h-full object-cover";
+
+  return (
+    <div
+      className={`video-container relative overflow-hidden bg-black ${className}`}
+    >
+      {url &&
+        (isVideo ? (
+          <video
+            ref={videoRef}
+            src={url}
+            autoPlay
+            loop
+            muted
+            playsInline
+            onLoadedData={(e) => onSourceReady(e.currentTarget)}
+            onError={() => alert(`Could not play ${file.name}`)}
+            className={elementClassName}
+            style={{ zIndex: 1 }}
+          />
+        ) : (
+          <img
+            src={url}
+            alt={file.name}
+            onLoad={(e) => onSourceReady(e.currentTarget)}
+            onError={() => alert(`Could not open ${file.name}`)}
+            className={elementClassName}
+            style={{ zIndex: 1 }}
+          />
+        ))}
+
+      <div className="absolute top-4 left-4 right-48 flex items-center gap-2 bg-black bg-opacity-50 text-white text-xs rounded-full px-3 py-1.5 z-30">
+        {isVideo && (
+          <>
+            <button
+              onClick={togglePlayback}
+              aria-label={isPaused ? "Play" : "Pause"}
+              className="w-4"
+            >
+              {isPaused ? "▶" : "❚❚"}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={0.01}
+              value={currentTime}
+              onChange={(e) => {
+                if (videoRef.current) {
+                  videoRef.current.currentTime = parseFloat(e.target.value);
+                }
+              }}
+              className="flex-1 min-w-0"
+              aria-label="Seek"
+            />
+            <span className="font-mono whitespace-nowrap">
+              {formatTime(currentTime)} / {formatTime(duration)}
+            </span>
+          </>
+        )}
+        <span className={`truncate ${isVideo ? "max-w-32" : "flex-1"}`}>
+          {file.name}
+        </span>
+        {isVideo && onRender && (
+          <button
+            onClick={onRender}
+            className="hover:text-gray-300 whitespace-nowrap"
+            title="Render every frame with the filters and save the video"
+          >
+            🎬 Render
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="hover:text-gray-300 whitespace-nowrap"
+          title="Back to the camera"
+        >
+          ✕ Camera
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MediaFileView;
@@ -0,0 +1,122 @@
+import React from "react";
+import type { OutputStreamSettings } from "../types/OutputStream";
+import { OUTPUT_STREAM_OPTIONS } from "../constants";
+
+interface OutputStreamPanelProps {
+  settings: OutputStreamSettings;
+  onChange: (settings: OutputStreamSettings) => void;
+  isActive: boolean;
+  size: { width: number; height: number } | null; // Of the frames sent
+  canStart: boolean; // False until the camera or file is ready
+  onStart: () => void;
+  onStop: () => void;
+  onOpenWindow: () => void;
+  onClose: () => void;
+  className?: string;
+}
+
+const OutputStreamPanel: React.FC<OutputStreamPanelProps> = ({
+  settings,
+  onChange,
+  isActive,
+  size,
+  canStart,
+  onStart,
+  onStop,
+  onOpenWindow,
+  onClose,
+  className = "",
+}) => {
+  return (
+    <div
+      className={`bg-white bg-opacity-95 rounded-lg p-3 shadow-lg w-64 text-xs space-y-2 ${className}`}
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-bold">Output Stream</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          ✕
+        </button>
+      </div>
+
+      <p className="text-gray-500">
+        The filtered video, for call apps. These settings don't change the
+        preview.
+      </p>
+
+      <div className="flex gap-2">
+        <label className="flex-1">
+          <span className="text-gray-600">Resolution</span>
+          <select
+            value={settings.resolution}
+            onChange={(e) =>
+              onChange({ ...settings, resolution: parseInt(e.target.value) })
+            }
+            className="w-full border rounded px-1 py-1 mt-0.5"
+          >
+            {OUTPUT_STREAM_OPTIONS.resolutions.map((resolution) => (
+              <option key={resolution} value={resolution}>
+                {resolution > 0 ? `${resolution}p` : "Source"}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="w-20">
+          <span className="text-gray-600">FPS</span>
+          <select
+            value={settings.frameRate}
+            onChange={(e) =>
+              onChange({ ...settings, frameRate: parseInt(e.target.value) })
+            }
+            className="w-full border rounded px-1 py-1 mt-0.5"
+          >
+            {OUTPUT_STREAM_OPTIONS.frameRates.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={settings.mirrored}
+          onChange={(e) =>
+            onChange({ ...settings, mirrored: e.target.checked })
+          }
+        />
+        <span className="text-gray-600">Mirror output</span>
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          onClick={isActive ? onStop : onStart}
+          disabled={!isActive && !canStart}
+          className={`flex-1 px-2 py-1 rounded text-white disabled:opacity-50 ${
+            isActive ? "bg-red-500" : "bg-blue-500"
+          }`}
+        >
+          {isActive ? "Stop" : "Start"}
+        </button>
+        <button
+          onClick={onOpenWindow}
+          disabled={!isActive && !canStart}
+          className="flex-1 px-2 py-1 rounded bg-gray-200 disabled:opacity-50"
+          title="A window showing only the output, for window capture"
+        >
+          Pop out
+        </button>
+      </div>
+
+      {isActive && size && (
+        <p className="text-gray-500">
+          Streaming {size.width}×{size.height} at {settings.frameRate} fps
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OutputStreamPanel;
@@ -0,0 +1,206 @@
+import React, { useRef } from "react";
+import type {
+  PhotoFormat,
+  PhotoSettings,
+  WatermarkPosition,
+  WatermarkSettings,
+} from "../types/Capture";
+import { PHOTO_CAPTURE_OPTIONS, PHOTO_FORMATS } from "../constants";
+import { createWatermarkLogo } from "../utils/watermark";
+
+interface PhotoCaptureSettingsProps {
+  settings: PhotoSettings;
+  onChange: (settings: PhotoSettings) => void;
+  supportedFormats: PhotoFormat[];
+  className?: string;
+}
+
+const POSITION_LABELS: Record<WatermarkPosition, string> = {
+  "top-left": "Top left",
+  "top-right": "Top right",
+  "bottom-left": "Bottom left",
+  "bottom-right": "Bottom right",
+};
+
+const PhotoCaptureSettings: React.FC<PhotoCaptureSettingsProps> = ({
+  settings,
+  onChange,
+  supportedFormats,
+  className = "",
+}) => {
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const { watermark } = settings;
+
+  const updateWatermark = (changes: Partial<WatermarkSettings>) =>
+    onChange({ ...settings, watermark: { ...watermark, ...changes } });
+
+  const handleLogoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      updateWatermark({ logo: await createWatermarkLogo(file) });
+    } catch (error) {
+      console.error("Could not read watermark logo:", error);
+      alert("Could not read that image. Please try another file.");
+    }
+  };
+
+  return (
+    <div
+      className={`bg-white bg-opacity-90 rounded-lg px-3 py-2 shadow-lg flex flex-col gap-2 text-xs ${className}`}
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1">
+          <span className="text-gray-600">Format</span>
+          <select
+            value={settings.format}
+            onChange={(e) =>
+              onChange({ ...settings, format: e.target.value as PhotoFormat })
+            }
+            className="border rounded px-1 py-0.5"
+          >
+            {supportedFormats.map((format) => (
+              <option key={format} value={format}>
+                {PHOTO_FORMATS[format].label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-1">
+          <span className="text-gray-600">Size</span>
+          <select
+            value={settings.resolution}
+            onChange={(e) =>
+              onChange({ ...settings, resolution: parseInt(e.target.value) })
+            }
+            className="border rounded px-1 py-0.5"
+          >
+            {PHOTO_CAPTURE_OPTIONS.resolutions.map((resolution) => (
+              <option key={resolution} value={resolution}>
+                {resolution > 0 ? `${resolution}p` : "Camera"}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {settings.format === "png" && (
+          <label
+            className="flex items-center gap-1"
+            title="Only the filters, on a transparent background"
+          >
+            <input
+              type="checkbox"
+              checked={settings.filterLayerOnly}
+              onChange={(e) =>
+                onChange({ ...settings, filterLayerOnly: e.target.checked })
+              }
+            />
+            <span className="text-gray-600">Filters only</span>
+          </label>
+        )}
+
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={watermark.enabled}
+            onChange={(e) => updateWatermark({ enabled: e.target.checked })}
+          />
+          <span className="text-gray-600">Watermark</span>
+        </label>
+      </div>
+
+      {watermark.enabled && (
+        <div className="flex flex-wrap items-center gap-3">
+          {watermark.logo ? (
+            <span className="flex items-center gap-1">
+              <img src={watermark.logo} alt="Watermark logo" className="h-5" />
+              <button
+                onClick={() => updateWatermark({ logo: null })}
+                className="text-gray-500 hover:text-gray-800"
+                aria-label="Remove logo"
+              >
+                ✕
+              </button>
+            </span>
+          ) : (
+            <input
+              type="text"
+              value={watermark.text}
+              onChange={(e) => updateWatermark({ text: e.target.value })}
+              className="border rounded px-1 py-0.5 w-28"
+              aria-label="Watermark text"
+            />
+          )}
+
+          <button
+            onClick={() => logoInputRef.current?.click()}
+            className="bg-gray-200 px-2 py-0.5 rounded"
+          >
+            {watermark.logo ? "Change logo" : "Use logo"}
+          </button>
+          <input
+            ref={logoInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleLogoFile}
+            className="hidden"
+          />
+
+          <select
+            value={watermark.position}
+            onChange={(e) =>
+              updateWatermark({
+                position: e.target.value as WatermarkPosition,
+              })
+            }
+            className="border rounded px-1 py-0.5"
+            aria-label="Watermark position"
+          >
+            {(Object.keys(POSITION_LABELS) as WatermarkPosition[]).map(
+              (position) => (
+                <option key={position} value={position}>
+                  {POSITION_LABELS[position]}
+                </option>
+              )
+            )}
+          </select>
+
+          <select
+            value={watermark.size}
+            onChange={(e) =>
+              updateWatermark({ size: parseFloat(e.target.value) })
+            }
+            className="border rounded px-1 py-0.5"
+            aria-label="Watermark size"
+          >
+            {PHOTO_CAPTURE_OPTIONS.watermarkSizes.map((size) => (
+              <option key={size} value={size}>
+                {Math.round(size * 100)}% wide
+              </option>
+            ))}
+          </select>
+
+          <label className="flex items-center gap-1">
+            <span className="text-gray-600">Opacity</span>
+            <input
+              type="range"
+              min="0.1"
+              max="1"
+              step="0.05"
+              value={watermark.opacity}
+              onChange={(e) =>
+                updateWatermark({ opacity: parseFloat(e.target.value) })
+              }
+              className="w-20"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoCaptureSettings;
@@ -0,0 +1,139 @@
+import React from "react";
+import type {
+  FocalLengthSource,
+  ProjectionMode,
+  ProjectionSettings,
+} from "../types/Projection";
+import { fovFromFocalLength } from "../utils/cameraProjection";
+
+interface ProjectionControlsProps {
+  settings: ProjectionSettings;
+  onChange: (settings: ProjectionSettings) => void;
+  focalLength: number; // Focal length currently in use, video pixels
+  videoWidth: number;
+  estimatedFocalLength: number | null;
+  isEstimating: boolean;
+  estimationProgress: number;
+  onEstimate: () => void;
+  onCancelEstimate: () => void;
+}
+
+const ProjectionControls: React.FC<ProjectionControlsProps> = ({
+  settings,
+  onChange,
+  focalLength,
+  videoWidth,
+  estimatedFocalLength,
+  isEstimating,
+  estimationProgress,
+  onEstimate,
+  onCancelEstimate,
+}) => {
+  const horizontalFov = videoWidth
+    ? fovFromFocalLength(focalLength, videoWidth)
+    : 0;
+
+  return (
+    <div className="mb-6 p-3 border rounded">
+      <h4 className="font-semibold mb-3">Camera Projection</h4>
+
+      <div className="space-y-2">
+        <div>
+          <label className="text-xs text-gray-600">Mode</label>
+          <select
+            value={settings.mode}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                mode: e.target.value as ProjectionMode,
+              })
+            }
+            className="w-full text-sm border rounded px-1 py-1"
+          >
+            <option value="orthographic">Orthographic (flat)</option>
+            <option value="perspective">Perspective (webcam)</option>
+          </select>
+        </div>
+
+        {settings.mode === "perspective" && (
+          <>
+            <div>
+              <label className="text-xs text-gray-600">Focal Length</label>
+              <select
+                value={settings.focalLengthSource}
+                onChange={(e) =>
+                  onChange({
+                    ...settings,
+                    focalLengthSource: e.target.value as FocalLengthSource,
+                  })
+                }
+                className="w-full text-sm border rounded px-1 py-1"
+              >
+                <option value="resolution">From video resolution</option>
+                <option value="manual">Manual</option>
+                <option value="estimated" disabled={!estimatedFocalLength}>
+                  Estimated
+                </option>
+              </select>
+            </div>
+
+            {settings.focalLengthSource === "manual" && (
+              <div>
+                <label className="text-xs text-gray-600">
+                  Focal length (video pixels)
+                </label>
+                <input
+                  type="number"
+                  min="100"
+                  max="5000"
+                  step="10"
+                  value={settings.manualFocalLength}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (value > 0) {
+                      onChange({ ...settings, manualFocalLength: value });
+                    }
+                  }}
+                  className="w-full text-sm border rounded px-1 py-1"
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+              {isEstimating ? (
+                <>
+                  <span className="text-xs text-gray-600">
+                    Turn your head slowly…{" "}
+                    {Math.round(estimationProgress * 100)}%
+                  </span>
+                  <button
+                    onClick={onCancelEstimate}
+                    className="text-xs bg-gray-200 px-2 py-1 rounded"
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={onEstimate}
+                  className="text-xs bg-blue-500 text-white px-2 py-1 rounded"
+                >
+                  Estimate from face
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        {horizontalFov > 0 && (
+          <span className="text-xs text-gray-500">
+            {Math.round(focalLength)}px · {horizontalFov.toFixed(0)}° horizontal
+            FOV
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectionControls;
@@ -1,125 +1,108 @@
-import React, { useRef, useEffect, useState } from "react";
-import Webcam from "react-webcam";
-import { ERROR_MESSAGES } from "../constants";
+import React, { useCallback, useEffect, useState } from "react";
+import CameraPicker from "./CameraPicker";
+import { useWebcam } from "../hooks/useWebcam";
+import { useCameraDevices } from "../hooks/useCameraDevices";
+import { CAMERA_RESOLUTIONS } from "../constants";
+import type { CameraSettings } from "../types/Camera";
 
 interface WebcamViewProps {
   onVideoReady: (videoElement: HTMLVideoElement) => void;
+  cameraSettings: CameraSettings;
+  onCameraSettingsChange: (settings: CameraSettings) => void;
+  // The camera actually streaming, also when the default one was asked for
+  onDeviceChange?: (deviceId: string) => void;
   className?: string;
   mirrored?: boolean;
 }
 
 const WebcamView: React.FC<WebcamViewProps> = ({
   onVideoReady,
+  cameraSettings,
+  onCameraSettingsChange: setCameraSettings,
+  onDeviceChange,
   className = "",
   mirrored = true,
 }) => {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const webcamRef = useRef<Webcam>(null);
-  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
-  const [isWebcamReady, setIsWebcamReady] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
   const [facingMode, setFacingMode] = useState<"user" | "environment">("user");
-
-  // Handle successful webcam initialization
-  const handleUserMedia = (stream: MediaStream) => {
-    console.log("✅ Webcam stream received successfully");
-    setIsWebcamReady(true);
-    setError(null);
-
-    // Pass the video element to parent after a short delay to ensure it's ready
-    setTimeout(() => {
-      if (webcamRef.current && webcamRef.current.video) {
-        console.log("📹 Passing video element to parent component");
-        onVideoReady(webcamRef.current.video);
-      }
-    }, 100);
-  };
-
-  // Handle webcam errors
-  const handleWebcamError = (error: string | DOMException) => {
-    console.error("❌ Webcam error:", error);
-
-    let webcamError: Error;
-    if (typeof error === "string") {
-      webcamError = new Error(error);
-    } else if (error instanceof DOMException) {
-      switch (error.name) {
-        case "NotAllowedError":
-          webcamError = new Error(
-            "Camera access denied. Please allow camera access and reload the page."
-          );
-          break;
-        case "NotFoundError":
-          webcamError = new Error(
-            "No camera found. Please connect a camera and try again."
-          );
-          break;
-        case "NotReadableError":
-          webcamError = new Error(
-            "Camera is already in use by another application."
-          );
-          break;
-        case "OverconstrainedError":
-          webcamError = new Error(
-            "Camera constraints not supported. Trying with basic settings..."
-          );
-          break;
-        default:
-          webcamError = new Error(`Camera error: ${error.message}`);
-      }
-    } else {
-      webcamError = new Error(ERROR_MESSAGES.WEBCAM_ACCESS);
-    }
-
-    setError(webcamError);
-    setIsWebcamReady(false);
-  };
-
-  // Switch between front and back cameras
+  const { devices, refresh: refreshDevices } = useCameraDevices();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  // A saved camera that has been unplugged falls back to the default until
+  // it is plugged back in. Before access is granted the list is empty, so
+  // trust the saved id then.
+  const deviceId =
+    cameraSettings.deviceId &&
+    (devices.length === 0 ||
+      devices.some((device) => device.deviceId === cameraSettings.deviceId))
+      ? cameraSettings.deviceId
+      : null;
+
+  // Step through the cameras, or flip front and back where they aren't listed
   const switchCamera = () => {
     console.log("🔄 Switching camera");
+    if (devices.length > 1) {
+      const current = devices.findIndex(
+        (device) => device.deviceId === (deviceId ?? trackSettings?.deviceId)
+      );
+      const next = devices[(current + 1) % devices.length];
+      setCameraSettings({ ...cameraSettings, deviceId: next.deviceId });
+      return;
+    }
     setFacingMode((prevMode) => (prevMode === "user" ? "environment" : "user"));
   };
 
-  // Update dimensions on window resize
-  useEffect(() => {
-    const updateDimensions = () => {
-      if (containerRef.current) {
-        const { width, height } = containerRef.current.getBoundingClientRect();
-        setDimensions({
-          width: Math.floor(width),
-          height: Math.floor(height),
-        });
-      }
-    };
-
-    // Use ResizeObserver for better performance
-    const resizeObserver = new ResizeObserver(updateDimensions);
-    if (containerRef.current) {
-      resizeObserver.observe(containerRef.current);
-    }
+  // Video constraints from the camera picker. Everything is an ideal so a
+  // camera without the exact mode still opens.
+  const resolution = CAMERA_RESOLUTIONS[cameraSettings.resolution];
+  const videoConstraints: MediaTrackConstraints = {
+    width: { ideal: resolution.width },
+    height: { ideal: resolution.height },
+    frameRate: { ideal: cameraSettings.frameRate },
+    ...(deviceId ? { deviceId: { ideal: deviceId } } : { facingMode }),
+  };
 
-    // Initial update
-    updateDimensions();
+  // Hand the video element to the parent once frames are flowing
+  const handleStreamStart = useCallback(
+    (_stream: MediaStream, video: HTMLVideoElement) => {
+      console.log("📹 Passing video element to parent component");
+      onVideoReady(video);
+      // Labels and ids are only listed once access is granted
+      refreshDevices();
+    },
+    [onVideoReady, refreshDevices]
+  );
 
-    return () => {
-      resizeObserver.disconnect();
-    };
-  }, []);
+  const {
+    videoRef,
+    isWebcamReady,
+    error,
+    trackSettings,
+    capabilities,
+    restart,
+  } = useWebcam({ videoConstraints, onStreamStart: handleStreamStart });
 
-  // Video constraints with optimized settings
-  const videoConstraints = {
-    width: { ideal: 1280, min: 640 },
-    height: { ideal: 720, min: 480 },
-    facingMode,
-    frameRate: { ideal: 30, max: 30 },
-  };
+  const activeDeviceId = trackSettings?.deviceId;
+  useEffect(() => {
+    if (activeDeviceId) onDeviceChange?.(activeDeviceId);
+  }, [activeDeviceId, onDeviceChange]);
 
   return (
     <div
-      ref={containerRef}
       className={`video-container relative overflow-hidden bg-black ${className}`}
     >
+      {/* Stays mounted so the stream can be reopened after an error */}
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        className="absolute top-0 left-0 w-full h-full object-cover"
+        style={{
+          transform: mirrored ? "scaleX(-1)" : "none",
+          zIndex: 1,
+        }}
+      />
+
       {error ? (
         <div className="absolute inset-0 flex items-center justify-center text-center p-4 bg-red-50 z-10">
           <div>
@@ -144,7 +127,7 @@ const WebcamView: React.FC<WebcamViewProps> = ({
             <p className="text-red-600 font-medium mb-4">{error.message}</p>
             <button
               className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded transition-colors"
-              onClick={() => window.location.reload()}
+              onClick={restart}
             >
               Retry
             </button>
@@ -152,23 +135,6 @@ const WebcamView: React.FC<WebcamViewProps> = ({
         </div>
       ) : (
         <>
-          <Webcam
-            ref={webcamRef}
-            audio={false}
-            width={dimensions.width || 640}
-            height={dimensions.height || 480}
-            screenshotFormat="image/jpeg"
-            videoConstraints={videoConstraints}
-            onUserMedia={handleUserMedia}
-            onUserMediaError={handleWebcamError}
-            mirrored={mirrored}
-            className="absolute top-0 left-0 w-full h-full object-cover"
-            style={{
-              transform: mirrored ? "scaleX(-1)" : "none",
-              zIndex: 1,
-            }}
-          />
-
           {!isWebcamReady && (
             <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-75 z-20">
               <div className="text-white text-center">
@@ -181,28 +147,70 @@ const WebcamView: React.FC<WebcamViewProps> = ({
             </div>
           )}
 
+          {/* Stays open while the camera restarts with new settings */}
+          {isPickerOpen && (
+            <CameraPicker
+              devices={devices}
+              settings={cameraSettings}
+              onChange={setCameraSettings}
+              activeSettings={trackSettings}
+              capabilities={capabilities}
+              onClose={() => setIsPickerOpen(false)}
+              className="absolute bottom-20 right-4 z-30"
+            />
+          )}
+
           {isWebcamReady && (
-            <button
-              onClick={switchCamera}
-              className="absolute bottom-4 right-4 bg-black bg-opacity-50 hover:bg-opacity-75 text-white p-3 rounded-full transition-all duration-200 z-30"
-              aria-label="Switch camera"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="20"
-                height="20"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
+            <div className="absolute bottom-4 right-4 flex gap-2 z-30">
+              <button
+                onClick={() => setIsPickerOpen((prev) => !prev)}
+                className="bg-black bg-opacity-50 hover:bg-opacity-75 text-white p-3 rounded-full transition-all duration-200"
+                aria-label="Camera settings"
               >
-                <path d="M14.5 4h-5L7 7H4a2 2 0 0 0-2 2v9a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2V9a2 2 0 0 0-2-2h-3l-2.5-3z"></path>
-                <circle cx="12" cy="13" r="3"></circle>
-                <path d="m9 13 1.5-1.5L12 13l1.5-1.5L15 13"></path>
-              </svg>
-            </button>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <line x1="4" y1="21" x2="4" y2="14"></line>
+                  <line x1="4" y1="10" x2="4" y2="3"></line>
+                  <line x1="12" y1="21" x2="12" y2="12"></line>
+                  <line x1="12" y1="8" x2="12" y2="3"></line>
+                  <line x1="20" y1="21" x2="20" y2="16"></line>
+                  <line x1="20" y1="12" x2="20" y2="3"></line>
+                  <line x1="1" y1="14" x2="7" y2="14"></line>
+                  <line x1="9" y1="8" x2="15" y2="8"></line>
+                  <line x1="17" y1="16" x2="23" y2="16"></line>
+                </svg>
+              </button>
+              <button
+                onClick={switchCamera}
+                className="bg-black bg-opacity-50 hover:bg-opacity-75 text-white p-3 rounded-full transition-all duration-200"
+                aria-label="Switch camera"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M14.5 4h-5L7 7H4a2 2 0 0 0-2 2v9a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2V9a2 2 0 0 0-2-2h-3l-2.5-3z"></path>
+                  <circle cx="12" cy="13" r="3"></circle>
+                  <path d="m9 13 1.5-1.5L12 13l1.5-1.5L15 13"></path>
+                </svg>
+              </button>
+            </div>
           )}
         </>
       )}
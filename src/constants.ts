@@ -1,4 +1,15 @@
-import { Filter } from "./types/Filter";
+import type { SmoothingOptions } from "./utils/landmarkSmoothing";
+import type { PerformanceTier } from "./utils/performanceGovernor";
+import type { ProjectionSettings } from "./types/Projection";
+import type { AnimationSettings } from "./types/Animation";
+import type { CameraResolution, CameraSettings } from "./types/Camera";
+import type {
+  CaptureTimerSettings,
+  PhotoFormat,
+  PhotoSettings,
+} from "./types/Capture";
+import type { OutputStreamSettings } from "./types/OutputStream";
+import type { CalibrationSettings } from "./types/Calibration";
 
 // Model paths
 export const MODEL_URL = "/models";
@@ -11,168 +22,249 @@ export const FACE_DETECTION_OPTIONS = {
 
 // Performance options
 export const DETECTION_FREQUENCY = 100;
-export const MAX_FACES = 1;
+export const WORKER_DETECTION_TIMEOUT = 5000; // ms before a worker run is given up
+export const MAX_FACES = 1; // Default, adjustable at runtime up to MAX_FACES_LIMIT
+export const MAX_FACES_LIMIT = 4;
 export const MIN_DETECTION_CONFIDENCE = 0.7;
 
-// Canvas rendering
-export const CANVAS_SIZE = {
-  width: 640,
-  height: 480,
+// Temporal smoothing between detections (One-Euro filter)
+// minCutoff: lower = steadier when still, but laggier
+// beta: higher = more responsive to fast head movement
+export const SMOOTHING_OPTIONS: SmoothingOptions = {
+  enabled: true,
+  landmarks: { minCutoff: 1.5, beta: 0.01, dCutoff: 1.0 }, // pixels
+  pose: { minCutoff: 1.0, beta: 0.5, dCutoff: 1.0 }, // radians
+  interpolate: true, // Blend between detections on every render frame
+  maxInterpolationMs: 250,
 };
 
-// Available 3D filters
-export const FILTERS: Filter[] = [
+// Adaptive performance tiers, ordered from cheapest to most expensive.
+// The governor starts from detectPerformanceSettings() and steps between
+// them to hold GOVERNOR_OPTIONS.targetFps.
+export const PERFORMANCE_TIERS: PerformanceTier[] = [
   {
-    id: "glasses",
-    name: "3D Glasses",
-    image: "/filters/glasses.svg", // Thumbnail for UI
-    category: "eyes",
-    type: "3d",
-    modelType: "glasses",
-    position: (landmarks, detection) => {
-      // 2D fallback positioning
-      const leftEye = landmarks.getLeftEye();
-      const rightEye = landmarks.getRightEye();
-      const eyeLeft = leftEye[0];
-      const eyeRight = rightEye[3];
-      const width = Math.abs(eyeRight.x - eyeLeft.x) * 1.8;
-
-      return {
-        x: eyeLeft.x - width * 0.2,
-        y: eyeLeft.y - width * 0.25,
-        width: width,
-        height: width * 0.4,
-      };
-    },
-    position3D: (landmarks, detection) => {
-      const leftEye = landmarks.getLeftEye();
-      const rightEye = landmarks.getRightEye();
-      const box = detection.detection.box;
-
-      // Calculate center between eyes
-      const centerX =
-        ((leftEye[0].x + rightEye[3].x) / 2 - box.width / 2) / box.width;
-      const centerY =
-        ((leftEye[0].y + rightEye[3].y) / 2 - box.height / 2) / box.height;
-
-      return {
-        x: centerX,
-        y: centerY,
-        z: 0,
-        scale: Math.min(box.width, box.height) / 300,
-        rotationZ: Math.atan2(
-          rightEye[3].y - leftEye[0].y,
-          rightEye[3].x - leftEye[0].x
-        ),
-      };
-    },
+    name: "low",
+    label: "Low",
+    inputSize: 128,
+    detectionFrequency: 300,
+    maxFaces: 1,
+    maxPixelRatio: 0.75,
+    antialias: false,
   },
   {
-    id: "hat",
-    name: "3D Hat",
-    image: "/filters/hat.svg",
-    category: "head",
-    type: "3d",
-    modelType: "hat",
-    position: (landmarks, detection) => {
-      const box = detection.detection.box;
-      return {
-        x: box.x - box.width * 0.15,
-        y: box.y - box.height * 0.85,
-        width: box.width * 1.3,
-        height: box.width * 0.8,
-      };
-    },
-    position3D: (landmarks, detection) => {
-      const box = detection.detection.box;
-      const forehead = landmarks.positions[24]; // Forehead point
-
-      return {
-        x: (forehead.x - box.x - box.width / 2) / box.width,
-        y: (forehead.y - box.y - box.height * 0.7) / box.height,
-        z: 0,
-        scale: Math.min(box.width, box.height) / 250,
-      };
-    },
+    name: "medium",
+    label: "Medium",
+    inputSize: 160,
+    detectionFrequency: 200,
+    maxFaces: 1,
+    maxPixelRatio: 1,
+    antialias: false,
   },
   {
-    id: "beard",
-    name: "3D Beard",
-    image: "/filters/beard.svg",
-    category: "mouth",
-    type: "3d",
-    modelType: "beard",
-    position: (landmarks, detection) => {
-      const jawline = landmarks.getJawOutline();
-      const mouth = landmarks.getMouth();
-      const jawLeft = jawline[0];
-      const jawRight = jawline[jawline.length - 1];
-      const mouthTop = mouth[14];
-      const width = Math.abs(jawRight.x - jawLeft.x) * 1.2;
-
-      return {
-        x: jawLeft.x - width * 0.1,
-        y: mouthTop.y - width * 0.05,
-        width: width,
-        height: width * 1.2,
-      };
-    },
-    position3D: (landmarks, detection) => {
-      const jawline = landmarks.getJawOutline();
-      const box = detection.detection.box;
-      const chin = jawline[8]; // Chin center
-
-      return {
-        x: (chin.x - box.x - box.width / 2) / box.width,
-        y: (chin.y - box.y - box.height * 0.3) / box.height,
-        z: 0,
-        scale: Math.min(box.width, box.height) / 280,
-      };
-    },
+    name: "high",
+    label: "High",
+    inputSize: 224,
+    detectionFrequency: 100,
+    maxFaces: 2,
+    maxPixelRatio: 1.5,
+    antialias: true,
   },
   {
-    id: "mustache",
-    name: "3D Mustache",
-    image: "/filters/mustache.svg",
-    category: "mouth",
-    type: "3d",
-    modelType: "mustache",
-    position: (landmarks, detection) => {
-      const nose = landmarks.getNose();
-      const mouth = landmarks.getMouth();
-      const noseTip = nose[3];
-      const mouthTop = mouth[14];
-      const width = Math.abs(mouth[0].x - mouth[6].x) * 1.3;
-
-      return {
-        x: noseTip.x - width / 2,
-        y: noseTip.y * 0.97 + (mouthTop.y - noseTip.y) * 0.35,
-        width: width,
-        height: width * 0.4,
-      };
-    },
-    position3D: (landmarks, detection) => {
-      const nose = landmarks.getNose();
-      const mouth = landmarks.getMouth();
-      const box = detection.detection.box;
-      const noseTip = nose[3];
-      const upperLip = mouth[14];
-
-      // Position between nose and upper lip
-      const centerX = (noseTip.x - box.x - box.width / 2) / box.width;
-      const centerY =
-        ((noseTip.y + upperLip.y) / 2 - box.y - box.height / 2) / box.height;
-
-      return {
-        x: centerX,
-        y: centerY,
-        z: 0.01, // Slightly forward from face
-        scale: Math.min(box.width, box.height) / 400,
-      };
-    },
+    name: "ultra",
+    label: "Ultra",
+    inputSize: 320,
+    detectionFrequency: 66,
+    maxFaces: MAX_FACES_LIMIT,
+    maxPixelRatio: 2,
+    antialias: true,
   },
 ];
 
+export const GOVERNOR_OPTIONS = {
+  enabled: true,
+  targetFps: 30,
+  evaluationInterval: 2000, // ms between tier decisions
+  downgradeThreshold: 0.85, // Step down below 85% of target fps
+  upgradeThreshold: 0.95, // Step up only above 95% of target fps...
+  upgradeStreak: 3, // ...for this many evaluations in a row
+};
+
+// Webcam projection used by the 3D overlay and head pose solve
+export const PROJECTION_OPTIONS = {
+  defaultHorizontalFov: 60, // degrees, typical laptop webcam
+  minHorizontalFov: 30, // Search range for focal length estimation
+  maxHorizontalFov: 100,
+  estimationSamples: 40, // Faces collected before estimating
+  sampleInterval: 150, // ms between estimation samples
+};
+
+export const DEFAULT_PROJECTION_SETTINGS: ProjectionSettings = {
+  mode: "orthographic",
+  focalLengthSource: "resolution",
+  manualFocalLength: 640, // video pixels
+};
+
+// Filter manifests listed here are registered on startup
+export const FILTER_MANIFEST_INDEX_URL = "/filters/index.json";
+
+// Parsed glTF filter models kept after their last user lets go
+export const MODEL_CACHE_SIZE = 8;
+
+// Video recording of the composited output
+export const RECORDING_OPTIONS = {
+  frameRate: 30,
+  videoBitsPerSecond: 5_000_000,
+  maxDuration: 60_000, // ms, recording stops by itself after this
+  timeslice: 1000, // ms of video per recorded chunk
+};
+
+export const DEFAULT_CALIBRATION: CalibrationSettings = {
+  positionAdjustments: {},
+  isVideoMirrored: true,
+};
+
+// Limits of the calibration sliders, also kept to when editing on the video
+export const CALIBRATION_RANGES = {
+  x: [-0.5, 0.5],
+  y: [-0.5, 0.5],
+  scale: [0.5, 2],
+  rotZ: [-0.5, 0.5],
+} as const;
+
+// Undo steps kept for calibration and filter selection
+export const UNDO_HISTORY_LIMIT = 100;
+
+// Frame pace of the overlays, detection and output stream while the tab is
+// hidden, where animation frames stop
+export const BACKGROUND_FRAME_INTERVAL = 1000 / 30; // ms
+
+// Output stream choices, offered apart from the preview's
+export const OUTPUT_STREAM_OPTIONS = {
+  resolutions: [0, 480, 720, 1080],
+  frameRates: [15, 24, 30],
+};
+
+// Call apps mirror the self-view themselves, and others should see the
+// picture the right way round
+export const DEFAULT_OUTPUT_STREAM_SETTINGS: OutputStreamSettings = {
+  mirrored: false,
+  resolution: 720,
+  frameRate: 30,
+};
+
+// Frame-by-frame rendering of uploaded videos
+export const OFFLINE_RENDER_OPTIONS = {
+  frameRate: 30,
+  bitrate: 8_000_000,
+  keyFrameInterval: 2, // seconds
+  seekTimeout: 5000, // ms before a seek that never lands fails the render
+  frameTimeout: 100, // ms to wait for a seeked frame to be shown
+};
+
+// Animated GIF / APNG loops, choices offered in the capture settings
+export const ANIMATION_CAPTURE_OPTIONS = {
+  frameCounts: [10, 20, 30, 45],
+  frameRates: [5, 10, 15],
+  widths: [240, 320, 480],
+  maxColors: 256, // GIF palette size
+  paletteSamples: 60_000, // Pixels sampled across all frames for the palette
+};
+
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = {
+  format: "gif",
+  frameCount: 20,
+  frameRate: 10,
+  width: 320,
+};
+
+// Self-timer and burst choices the shutter cycles through
+export const CAPTURE_TIMER_OPTIONS = {
+  delays: [0, 3, 5, 10], // seconds
+  burstCounts: [1, 3, 5, 10],
+  burstInterval: 500, // ms between burst shots
+};
+
+export const DEFAULT_CAPTURE_TIMER: CaptureTimerSettings = {
+  delay: 0,
+  burstCount: 1,
+};
+
+// Webcam presets offered in the camera picker. Both are requested as
+// ideals, so the camera picks the closest mode it has.
+export const CAMERA_RESOLUTIONS: Record<
+  CameraResolution,
+  { label: string; width: number; height: number }
+> = {
+  "480p": { label: "640×480", width: 640, height: 480 },
+  "720p": { label: "1280×720", width: 1280, height: 720 },
+  "1080p": { label: "1920×1080", width: 1920, height: 1080 },
+  "2160p": { label: "3840×2160", width: 3840, height: 2160 },
+};
+
+export const CAMERA_FRAME_RATES = [15, 24, 30, 60];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: "720p",
+  frameRate: 30,
+};
+
+// Photo output, choices offered in the photo settings
+export const PHOTO_FORMATS: Record<
+  PhotoFormat,
+  { label: string; mimeType: string; extension: string }
+> = {
+  jpeg: { label: "JPEG", mimeType: "image/jpeg", extension: "jpg" },
+  png: { label: "PNG", mimeType: "image/png", extension: "png" },
+  webp: { label: "WebP", mimeType: "image/webp", extension: "webp" },
+};
+
+export const PHOTO_CAPTURE_OPTIONS = {
+  quality: 0.95, // JPEG and WebP
+  resolutions: [0, 720, 1080, 1440, 2160], // Output height, 0 for native
+  watermarkSizes: [0.1, 0.2, 0.3],
+  watermarkMargin: 0.03, // Fraction of the shorter side
+  maxLogoSize: 512, // Uploaded logos are scaled down to fit
+};
+
+export const DEFAULT_PHOTO_SETTINGS: PhotoSettings = {
+  format: "jpeg",
+  resolution: 0,
+  filterLayerOnly: false,
+  watermark: {
+    enabled: false,
+    text: "AR Face Filter",
+    logo: null,
+    position: "bottom-right",
+    opacity: 0.8,
+    size: 0.2,
+  },
+};
+
+// Capture gallery kept in IndexedDB
+export const GALLERY_OPTIONS = {
+  databaseName: "ar-face-filter",
+  thumbnailSize: 240, // Longest side in pixels
+  thumbnailQuality: 0.8,
+};
+
+// localStorage keys for user settings
+export const STORAGE_KEYS = {
+  autoDownload: "ar-face-filter:auto-download",
+  captureTimer: "ar-face-filter:capture-timer",
+  photoSettings: "ar-face-filter:photo-settings",
+  camera: "ar-face-filter:camera",
+  outputStream: "ar-face-filter:output-stream",
+  calibration: "ar-face-filter:calibration",
+  calibrationProfiles: "ar-face-filter:calibration-profiles",
+};
+
+// Canvas rendering
+export const CANVAS_SIZE = {
+  width: 640,
+  height: 480,
+};
+
 // Error messages
 export const ERROR_MESSAGES = {
   WEBCAM_ACCESS:
@@ -0,0 +1,159 @@
+import type { Filter } from "../types/Filter";
+import { registerFilter } from "../utils/filterRegistry";
+import { FilterModels } from "../utils/FilterModels";
+import glassesSvg from "../assets/filters/glasses.svg";
+import hatSvg from "../assets/filters/hat.svg";
+import beardSvg from "../assets/filters/beard.svg";
+import moustacheSvg from "../assets/filters/moustache.svg";
+
+// Converts a video pixel row to a scene y coordinate
+const toSceneY = (y: number, videoHeight: number) =>
+  -((y / videoHeight) * 2 - 1);
+
+// Filters that ship with the app
+export const BUILT_IN_FILTERS: Filter[] = [
+  {
+    id: "glasses",
+    name: "3D Glasses",
+    image: glassesSvg,
+    category: "eyes",
+    type: "3d",
+    position: (landmarks) => {
+      // 2D fallback positioning
+      const leftEye = landmarks.getLeftEye();
+      const rightEye = landmarks.getRightEye();
+      const eyeLeft = leftEye[0];
+      const eyeRight = rightEye[3];
+      const width = Math.abs(eyeRight.x - eyeLeft.x) * 1.8;
+
+      return {
+        x: eyeLeft.x - width * 0.2,
+        y: eyeLeft.y - width * 0.25,
+        width: width,
+        height: width * 0.4,
+        angle: Math.atan2(eyeRight.y - eyeLeft.y, eyeRight.x - eyeLeft.x),
+      };
+    },
+    position3D: ({ landmarks, scale, videoWidth, videoHeight }) => {
+      // Position at eye level using video coordinates
+      const eyeCenterX = (landmarks.leftEye.x + landmarks.rightEye.x) / 2;
+      const eyeCenterY = (landmarks.leftEye.y + landmarks.rightEye.y) / 2;
+
+      return {
+        x: (eyeCenterX / videoWidth) * 2 - 1,
+        y: toSceneY(eyeCenterY, videoHeight),
+        z: 0.01,
+        scale: scale * 0.8, // Proportional to face width
+      };
+    },
+    createModel: FilterModels.createGlasses,
+  },
+  {
+    id: "hat",
+    name: "3D Hat",
+    image: hatSvg,
+    category: "head",
+    type: "3d",
+    position: (landmarks, detection) => {
+      const box = detection.detection.box;
+      const eyeLeft = landmarks.getLeftEye()[0];
+      const eyeRight = landmarks.getRightEye()[3];
+      return {
+        x: box.x - box.width * 0.15,
+        y: box.y - box.height * 0.85,
+        width: box.width * 1.3,
+        height: box.width * 0.8,
+        angle: Math.atan2(eyeRight.y - eyeLeft.y, eyeRight.x - eyeLeft.x),
+      };
+    },
+    position3D: ({ center, landmarks, scale, videoHeight }) => {
+      // Position above forehead, with a subtle bob
+      const hatY = landmarks.forehead.y - landmarks.faceHeight * 0.6;
+      const bob = Math.sin(Date.now() * 0.001) * 0.02;
+
+      return {
+        x: center.x,
+        y: toSceneY(hatY, videoHeight) + bob,
+        z: -0.02,
+        scale: scale * 1.2, // Larger for hat
+      };
+    },
+    createModel: FilterModels.createHat,
+  },
+  {
+    id: "beard",
+    name: "3D Beard",
+    image: beardSvg,
+    category: "mouth",
+    type: "3d",
+    position: (landmarks) => {
+      const jawline = landmarks.getJawOutline();
+      const mouth = landmarks.getMouth();
+      const jawLeft = jawline[0];
+      const jawRight = jawline[jawline.length - 1];
+      const mouthTop = mouth[14];
+      const width = Math.abs(jawRight.x - jawLeft.x) * 1.2;
+
+      return {
+        x: jawLeft.x - width * 0.1,
+        y: mouthTop.y - width * 0.05,
+        width: width,
+        height: width * 1.2,
+        angle: Math.atan2(jawRight.y - jawLeft.y, jawRight.x - jawLeft.x),
+      };
+    },
+    position3D: ({ center, landmarks, scale, videoHeight }) => {
+      // Position below mouth area
+      const beardY = landmarks.chin.y + landmarks.faceHeight * 0.05;
+
+      return {
+        x: center.x,
+        y: toSceneY(beardY, videoHeight),
+        z: 0.01,
+        scale: scale * 1.0, // Similar to face width
+      };
+    },
+    createModel: FilterModels.createBeard,
+  },
+  {
+    id: "mustache",
+    name: "3D Mustache",
+    image: moustacheSvg,
+    category: "mouth",
+    type: "3d",
+    position: (landmarks) => {
+      const nose = landmarks.getNose();
+      const mouth = landmarks.getMouth();
+      const noseTip = nose[3];
+      const mouthTop = mouth[14];
+      const width = Math.abs(mouth[0].x - mouth[6].x) * 1.3;
+
+      return {
+        x: noseTip.x - width / 2,
+        y: noseTip.y * 0.97 + (mouthTop.y - noseTip.y) * 0.35,
+        width: width,
+        height: width * 0.4,
+        angle: Math.atan2(mouth[6].y - mouth[0].y, mouth[6].x - mouth[0].x),
+      };
+    },
+    position3D: ({ center, landmarks, scale, videoHeight }) => {
+      // Position between nose and mouth
+      const mustacheY = landmarks.noseTip.y + landmarks.faceHeight * 0.2;
+
+      return {
+        x: center.x,
+        y: toSceneY(mustacheY, videoHeight),
+        z: 0.02,
+        scale: scale * 0.6, // Smaller mustache
+      };
+    },
+    createModel: FilterModels.createMustache,
+  },
+];
+
+/**
+ * Registers the filters that ship with the app
+ */
+export const registerBuiltInFilters = () => {
+  BUILT_IN_FILTERS.forEach((filter) => registerFilter(filter));
+};
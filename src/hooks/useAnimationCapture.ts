@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  AnimationCapture,
+  AnimationCapturePhase,
+  AnimationFormat,
+  AnimationSettings,
+} from "../types/Animation";
+import { AnimationEncoder } from "../utils/animationEncoder";
+import { isApngSupported } from "../utils/apngEncoder";
+import { drawCompositeFrame } from "../utils/compositing";
+import { createAppError, ERROR_CODES } from "../utils/errorHandling";
+
+interface UseAnimationCaptureOptions {
+  onCaptureComplete?: (capture: AnimationCapture) => void;
+  onError?: (error: Error) => void;
+}
+
+interface UseAnimationCaptureReturn {
+  phase: AnimationCapturePhase;
+  progress: number; // 0-1 within the current phase
+  supportedFormats: AnimationFormat[];
+  captureAnimation: (
+    videoElement: HTMLVideoElement,
+    getOverlayCanvas: () => HTMLCanvasElement | null,
+    settings: AnimationSettings
+  ) => Promise<void>;
+  cancelCapture: () => void;
+}
+
+const wait = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+
+/**
+ * Captures a short loop of the composited video and overlay, then encodes
+ * it to an animated GIF or APNG off the main thread
+ */
+export function useAnimationCapture({
+  onCaptureComplete,
+  onError,
+}: UseAnimationCaptureOptions = {}): UseAnimationCaptureReturn {
+  const [phase, setPhase] = useState<AnimationCapturePhase>("idle");
+  const [progress, setProgress] = useState(0);
+  const [supportedFormats] = useState<AnimationFormat[]>(() =>
+    isApngSupported() ? ["gif", "apng"] : ["gif"]
+  );
+  const encoderRef = useRef<AnimationEncoder | null>(null);
+  // Bumped to abandon the capture in progress
+  const captureIdRef = useRef(0);
+
+  const captureAnimation = useCallback(
+    async (
+      videoElement: HTMLVideoElement,
+      getOverlayCanvas: () => HTMLCanvasElement | null,
+      settings: AnimationSettings
+    ) => {
+      const captureId = ++captureIdRef.current;
+      const isCancelled = () => captureIdRef.current !== captureId;
+      const { format, frameCount, frameRate } = settings;
+
+      try {
+        if (videoElement.readyState < 2) {
+          throw new Error("Video not ready for capture");
+        }
+
+        // Keep the video aspect ratio at the chosen width
+        const videoWidth = videoElement.videoWidth || videoElement.clientWidth;
+        const videoHeight =
+          videoElement.videoHeight || videoElement.clientHeight;
+        const width = Math.min(settings.width, videoWidth);
+        const height = Math.round((width * videoHeight) / videoWidth);
+
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext("2d", { willReadFrequently: true });
+        if (!ctx) {
+          throw new Error("Could not get canvas context");
+        }
+
+        console.log(
+          `🎞️ Capturing ${frameCount} frames at ${frameRate}fps for ${format.toUpperCase()}`
+        );
+        setPhase("capturing");
+        setProgress(0);
+
+        // Frames are scheduled from the start time so delays don't add up
+        const interval = 1000 / frameRate;
+        const start = performance.now();
+        const frames: ArrayBuffer[] = [];
+        for (let i = 0; i < frameCount; i++) {
+          await wait(start + i * interval - performance.now());
+          if (isCancelled()) return;
+
+          drawCompositeFrame(ctx, videoElement, getOverlayCanvas());
+          frames.push(ctx.getImageData(0, 0, width, height).data.buffer);
+          setProgress((i + 1) / frameCount);
+        }
+
+        setPhase("encoding");
+        setProgress(0);
+
+        if (!encoderRef.current) {
+          encoderRef.current = new AnimationEncoder();
+        }
+        const blob = await encoderRef.current.encode(frames, {
+          format,
+          width,
+          height,
+          delay: interval,
+          onProgress: (value) => {
+            if (!isCancelled()) setProgress(value);
+          },
+        });
+        if (isCancelled()) return;
+
+        console.log(
+          `✅ Encoded ${format.toUpperCase()}: ${(blob.size / 1024).toFixed(0)}KB`
+        );
+        setPhase("idle");
+        setProgress(0);
+        onCaptureComplete?.({
+          blob,
+          format,
+          width,
+          height,
+          frameCount,
+          frameRate,
+        });
+      } catch (error) {
+        if (isCancelled()) return;
+        console.error("Error capturing animation:", error);
+
+        setPhase("idle");
+        setProgress(0);
+        onError?.(
+          createAppError(
+            error instanceof Error ? error.message : "Unknown capture error",
+            {
+              code: ERROR_CODES.SCREENSHOT_FAILED,
+              context: { format, frameCount, frameRate },
+              originalError: error instanceof Error ? error : undefined,
+            }
+          )
+        );
+      }
+    },
+    [onCaptureComplete, onError]
+  );
+
+  // Stop capturing, or throw away the encode in progress
+  const cancelCapture = useCallback(() => {
+    captureIdRef.current += 1;
+    encoderRef.current?.terminate();
+    encoderRef.current = null;
+    setPhase("idle");
+    setProgress(0);
+    console.log("🚫 Animation capture cancelled");
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      captureIdRef.current += 1;
+      encoderRef.current?.terminate();
+    };
+  }, []);
+
+  return {
+    phase,
+    progress,
+    supportedFormats,
+    captureAnimation,
+    cancelCapture,
+  };
+}
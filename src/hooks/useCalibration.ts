@@ -0,0 +1,357 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { FilterAdjustment } from "../types/Filter";
+import type {
+  CalibrationProfile,
+  CalibrationSettings,
+} from "../types/Calibration";
+import {
+  createCalibrationFile,
+  parseCalibration,
+  readCalibrationFile,
+} from "../utils/calibration";
+import { downloadBlob } from "../utils/download";
+import { DEFAULT_CALIBRATION, STORAGE_KEYS } from "../constants";
+
+interface ProfileState {
+  profiles: CalibrationProfile[];
+  activeId: string;
+  defaultsByDevice: Record<string, string>; // Camera deviceId to profile id
+}
+
+interface UseCalibrationReturn {
+  calibration: CalibrationSettings; // Of the active profile
+  setAdjustment: (filterId: string, adjustment: FilterAdjustment) => void;
+  setVideoMirrored: (isVideoMirrored: boolean) => void;
+  setCalibration: (calibration: CalibrationSettings) => void; // All at once
+  importCalibration: (file: File) => Promise<void>;
+  exportCalibration: () => void;
+  profiles: CalibrationProfile[];
+  activeProfile: CalibrationProfile;
+  defaultsByDevice: Record<string, string>;
+  // Returns the profile so its camera can be picked
+  switchProfile: (id: string) => CalibrationProfile | undefined;
+  createProfile: (name: string) => void;
+  renameProfile: (id: string, name: string) => void;
+  duplicateProfile: (id: string) => void;
+  deleteProfile: (id: string) => void;
+  setProfileCamera: (deviceId: string | null) => void;
+  // Marks the active profile as the one to use with the streaming camera
+  setDefaultForDevice: (isDefault: boolean) => void;
+}
+
+const newProfile = (
+  name: string,
+  calibration: CalibrationSettings
+): CalibrationProfile => ({
+  id: crypto.randomUUID(),
+  name,
+  calibration,
+  cameraDeviceId: null,
+});
+
+// Calibration saved before there were profiles becomes the first one
+const readLegacyCalibration = (): CalibrationSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.calibration);
+    if (stored === null) return DEFAULT_CALIBRATION;
+    return parseCalibration(JSON.parse(stored), "in browser storage");
+  } catch (error) {
+    console.warn("Ignoring saved calibration:", error);
+    return DEFAULT_CALIBRATION;
+  }
+};
+
+// Saved calibration goes through the same migration as imported files.
+// Profiles that don't parse are dropped rather than losing all of them.
+const readStoredProfiles = (): ProfileState => {
+  let stored: unknown = null;
+  try {
+    stored = JSON.parse(
+      localStorage.getItem(STORAGE_KEYS.calibrationProfiles) ?? "null"
+    );
+  } catch (error) {
+    console.warn("Ignoring saved calibration profiles:", error);
+  }
+
+  const data = (stored ?? {}) as Partial<Record<keyof ProfileState, unknown>>;
+  const profiles = (Array.isArray(data.profiles) ? data.profiles : []).flatMap(
+    (profile): CalibrationProfile[] => {
+      try {
+        if (
+          typeof profile.id !== "string" ||
+          typeof profile.name !== "string"
+        ) {
+          throw new Error("Profile needs an id and a name");
+        }
+        return [
+          {
+            id: profile.id,
+            name: profile.name,
+            calibration: parseCalibration(profile.calibration, profile.name),
+            cameraDeviceId:
+              typeof profile.cameraDeviceId === "string"
+                ? profile.cameraDeviceId
+                : null,
+          },
+        ];
+      } catch (error) {
+        console.warn("Ignoring saved calibration profile:", error);
+        return [];
+      }
+    }
+  );
+
+  if (profiles.length === 0) {
+    profiles.push(newProfile("Default", readLegacyCalibration()));
+  }
+
+  const ids = new Set(profiles.map((profile) => profile.id));
+  const defaults =
+    typeof data.defaultsByDevice === "object" && data.defaultsByDevice
+      ? (data.defaultsByDevice as Record<string, unknown>)
+      : {};
+  return {
+    profiles,
+    activeId:
+      typeof data.activeId === "string" && ids.has(data.activeId)
+        ? data.activeId
+        : profiles[0].id,
+    defaultsByDevice: Object.fromEntries(
+      Object.entries(defaults).filter(
+        (entry): entry is [string, string] =>
+          typeof entry[1] === "string" && ids.has(entry[1])
+      )
+    ),
+  };
+};
+
+/**
+ * Named calibration profiles with filter calibration and mirroring, saved
+ * to localStorage on every change and restored on reload. A profile can be
+ * the default for a camera, and is switched to when that camera starts
+ * streaming. Exports and imports the active profile as versioned JSON.
+ * @param activeDeviceId The camera that is streaming, if any
+ */
+export function useCalibration(
+  activeDeviceId: string | null
+): UseCalibrationReturn {
+  const [state, setState] = useState(readStoredProfiles);
+  const activeProfile =
+    state.profiles.find((profile) => profile.id === state.activeId) ??
+    state.profiles[0];
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(
+        STORAGE_KEYS.calibrationProfiles,
+        JSON.stringify({
+          ...state,
+          profiles: state.profiles.map((profile) => ({
+            ...profile,
+            calibration: createCalibrationFile(profile.calibration),
+          })),
+        })
+      );
+    } catch (error) {
+      console.warn("Could not save calibration:", error);
+    }
+  }, [state]);
+
+  // Changes the active profile's calibration
+  const updateCalibration = useCallback(
+    (update: (calibration: CalibrationSettings) => CalibrationSettings) => {
+      setState((prev) => ({
+        ...prev,
+        profiles: prev.profiles.map((profile) =>
+          profile.id === prev.activeId
+            ? { ...profile, calibration: update(profile.calibration) }
+            : profile
+        ),
+      }));
+    },
+    []
+  );
+
+  const setAdjustment = useCallback(
+    (filterId: string, adjustment: FilterAdjustment) => {
+      updateCalibration((prev) => ({
+        ...prev,
+        positionAdjustments: {
+          ...prev.positionAdjustments,
+          [filterId]: adjustment,
+        },
+      }));
+    },
+    [updateCalibration]
+  );
+
+  const setVideoMirrored = useCallback(
+    (isVideoMirrored: boolean) => {
+      updateCalibration((prev) => ({ ...prev, isVideoMirrored }));
+    },
+    [updateCalibration]
+  );
+
+  const setCalibration = useCallback(
+    (calibration: CalibrationSettings) => {
+      updateCalibration(() => calibration);
+    },
+    [updateCalibration]
+  );
+
+  // Throws when the file isn't valid calibration, leaving the current one
+  const importCalibration = useCallback(
+    async (file: File) => {
+      const imported = await readCalibrationFile(file);
+      updateCalibration(() => imported);
+      console.log(
+        `📥 Imported calibration for ${Object.keys(imported.positionAdjustments).length} filters`
+      );
+    },
+    [updateCalibration]
+  );
+
+  const exportCalibration = useCallback(() => {
+    const dataStr = JSON.stringify(
+      createCalibrationFile(activeProfile.calibration),
+      null,
+      2
+    );
+    downloadBlob(
+      new Blob([dataStr], { type: "application/json" }),
+      "filter-calibration-settings.json"
+    );
+  }, [activeProfile]);
+
+  // The camera change a manual switch causes shouldn't switch profiles again
+  const expectedDeviceRef = useRef<string | null>(null);
+  const lastDeviceRef = useRef<string | null>(null);
+
+  const switchProfile = useCallback(
+    (id: string) => {
+      const profile = state.profiles.find((candidate) => candidate.id === id);
+      if (!profile) return undefined;
+
+      expectedDeviceRef.current = profile.cameraDeviceId;
+      setState((prev) => ({ ...prev, activeId: id }));
+      console.log(`🎛️ Calibration profile: ${profile.name}`);
+      return profile;
+    },
+    [state.profiles]
+  );
+
+  // Use the camera's default profile when a different camera starts
+  useEffect(() => {
+    if (!activeDeviceId || activeDeviceId === lastDeviceRef.current) return;
+    lastDeviceRef.current = activeDeviceId;
+    if (activeDeviceId === expectedDeviceRef.current) return;
+
+    const defaultId = state.defaultsByDevice[activeDeviceId];
+    if (defaultId && defaultId !== state.activeId) {
+      console.log("🎛️ Switching to this camera's default calibration profile");
+      setState((prev) => ({ ...prev, activeId: defaultId }));
+    }
+  }, [activeDeviceId, state.defaultsByDevice, state.activeId]);
+
+  const addProfile = useCallback((profile: CalibrationProfile) => {
+    setState((prev) => ({
+      ...prev,
+      profiles: [...prev.profiles, profile],
+      activeId: profile.id,
+    }));
+  }, []);
+
+  const createProfile = useCallback(
+    (name: string) => {
+      addProfile(newProfile(name, DEFAULT_CALIBRATION));
+    },
+    [addProfile]
+  );
+
+  const duplicateProfile = useCallback(
+    (id: string) => {
+      const profile = state.profiles.find((candidate) => candidate.id === id);
+      if (!profile) return;
+      addProfile({
+        ...profile,
+        id: crypto.randomUUID(),
+        name: `${profile.name} copy`,
+      });
+    },
+    [state.profiles, addProfile]
+  );
+
+  const renameProfile = useCallback((id: string, name: string) => {
+    setState((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((profile) =>
+        profile.id === id ? { ...profile, name } : profile
+      ),
+    }));
+  }, []);
+
+  // The last profile can't be deleted, there is always one to calibrate
+  const deleteProfile = useCallback((id: string) => {
+    setState((prev) => {
+      const profiles = prev.profiles.filter((profile) => profile.id !== id);
+      if (profiles.length === 0) return prev;
+
+      return {
+        profiles,
+        activeId: prev.activeId === id ? profiles[0].id : prev.activeId,
+        defaultsByDevice: Object.fromEntries(
+          Object.entries(prev.defaultsByDevice).filter(
+            ([, profileId]) => profileId !== id
+          )
+        ),
+      };
+    });
+  }, []);
+
+  const setProfileCamera = useCallback((deviceId: string | null) => {
+    setState((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((profile) =>
+        profile.id === prev.activeId
+          ? { ...profile, cameraDeviceId: deviceId }
+          : profile
+      ),
+    }));
+  }, []);
+
+  const setDefaultForDevice = useCallback(
+    (isDefault: boolean) => {
+      if (!activeDeviceId) return;
+
+      setState((prev) => {
+        const defaultsByDevice = { ...prev.defaultsByDevice };
+        if (isDefault) {
+          defaultsByDevice[activeDeviceId] = prev.activeId;
+        } else {
+          delete defaultsByDevice[activeDeviceId];
+        }
+        return { ...prev, defaultsByDevice };
+      });
+    },
+    [activeDeviceId]
+  );
+
+  return {
+    calibration: activeProfile.calibration,
+    setAdjustment,
+    setVideoMirrored,
+    setCalibration,
+    importCalibration,
+    exportCalibration,
+    profiles: state.profiles,
+    activeProfile,
+    defaultsByDevice: state.defaultsByDevice,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    duplicateProfile,
+    deleteProfile,
+    setProfileCamera,
+    setDefaultForDevice,
+  };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+
+interface UseCameraDevicesReturn {
+  devices: MediaDeviceInfo[]; // Empty until camera access is granted
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Video inputs on this machine, kept up to date as cameras are plugged in
+ * or removed. Browsers hide the ids and labels until camera access is
+ * granted, so refresh once a stream is open.
+ */
+export function useCameraDevices(): UseCameraDevicesReturn {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      const cameras = all.filter(
+        (device) => device.kind === "videoinput" && device.deviceId
+      );
+      setDevices(cameras);
+    } catch (error) {
+      console.warn("Could not list cameras:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    const handleDeviceChange = () => {
+      console.log("🔌 Camera devices changed");
+      refresh();
+    };
+
+    refresh();
+    mediaDevices.addEventListener("devicechange", handleDeviceChange);
+    return () =>
+      mediaDevices.removeEventListener("devicechange", handleDeviceChange);
+  }, [refresh]);
+
+  return { devices, refresh };
+}
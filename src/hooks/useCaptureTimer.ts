@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { BurstProgress } from "../types/Capture";
+
+interface CaptureTimerOptions {
+  delay: number; // Seconds to count down before the first shot
+  shots: number;
+  interval: number; // ms between shots
+}
+
+interface UseCaptureTimerReturn {
+  countdown: number | null; // Seconds left, null when not counting down
+  burst: BurstProgress | null; // Set while a burst is being taken
+  isActive: boolean;
+  // A capture resolving to false failed, and ends the burst
+  startCapture: (
+    capture: () => Promise<unknown> | void,
+    options: CaptureTimerOptions
+  ) => Promise<void>;
+  cancelCapture: () => void;
+}
+
+const wait = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+
+/**
+ * Self-timer and burst for the shutter. Counts down, then runs the capture
+ * once per shot. Starting again, cancelling or a failed shot abandons the
+ * current run.
+ */
+export function useCaptureTimer(): UseCaptureTimerReturn {
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [burst, setBurst] = useState<BurstProgress | null>(null);
+  const [isActive, setIsActive] = useState(false);
+  // Bumped to abandon the run in progress
+  const runIdRef = useRef(0);
+
+  const startCapture = useCallback(
+    async (
+      capture: () => Promise<unknown> | void,
+      { delay, shots, interval }: CaptureTimerOptions
+    ) => {
+      const runId = ++runIdRef.current;
+      const isCancelled = () => runIdRef.current !== runId;
+      setIsActive(true);
+
+      try {
+        for (let remaining = delay; remaining > 0; remaining--) {
+          setCountdown(remaining);
+          await wait(1000);
+          if (isCancelled()) return;
+        }
+        setCountdown(null);
+
+        // Shots are scheduled from the first one so slow captures don't
+        // stretch the burst
+        const start = performance.now();
+        for (let shot = 0; shot < shots; shot++) {
+          await wait(start + shot * interval - performance.now());
+          if (isCancelled()) return;
+
+          if ((await capture()) === false) return;
+          if (shots > 1) setBurst({ taken: shot + 1, total: shots });
+        }
+      } finally {
+        if (!isCancelled()) {
+          setCountdown(null);
+          setBurst(null);
+          setIsActive(false);
+        }
+      }
+    },
+    []
+  );
+
+  const cancelCapture = useCallback(() => {
+    runIdRef.current += 1;
+    setCountdown(null);
+    setBurst(null);
+    setIsActive(false);
+    console.log("🚫 Timed capture cancelled");
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      runIdRef.current += 1;
+    };
+  }, []);
+
+  return { countdown, burst, isActive, startCapture, cancelCapture };
+}
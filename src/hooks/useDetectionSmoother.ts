@@ -0,0 +1,30 @@
+import { useEffect, useRef } from "react";
+import type { FaceDetectionWithLandmarks } from "../types/FaceDetection";
+import { DetectionSmoother } from "../utils/landmarkSmoothing";
+import type { SmoothingOptions } from "../utils/landmarkSmoothing";
+import { SMOOTHING_OPTIONS } from "../constants";
+
+/**
+ * Feeds detections from useFaceDetection into a DetectionSmoother that
+ * overlays can sample once per render frame
+ */
+export function useDetectionSmoother(
+  detections: FaceDetectionWithLandmarks[] | null,
+  options: SmoothingOptions = SMOOTHING_OPTIONS
+): DetectionSmoother {
+  const smootherRef = useRef<DetectionSmoother | null>(null);
+  if (!smootherRef.current) {
+    smootherRef.current = new DetectionSmoother(options);
+  }
+
+  // Reset filter state when the tuning changes
+  useEffect(() => {
+    smootherRef.current?.setOptions(options);
+  }, [options]);
+
+  useEffect(() => {
+    smootherRef.current?.update(detections, performance.now());
+  }, [detections]);
+
+  return smootherRef.current;
+}
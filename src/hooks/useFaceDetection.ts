@@ -4,6 +4,15 @@ import {
   FaceDetectionState,
   FaceDetectionResult,
 } from "../types/FaceDetection";
+import type {
+  DetectionBackend,
+  FaceDetectionWithLandmarks,
+} from "../types/FaceDetection";
+import type { FrameSource } from "../types/InputSource";
+import { WorkerFaceDetector } from "../utils/workerDetector";
+import { isFrameReady, isStillFrame } from "../utils/frameSource";
+import { requestFrame } from "../utils/frameClock";
+import { supportsWorkerDetection } from "../utils/browserCompatibility";
 import {
   MODEL_URL,
   FACE_DETECTION_OPTIONS,
@@ -15,15 +24,30 @@ import {
 
 interface UseFaceDetectionOptions {
   enabled?: boolean;
-  videoElement: HTMLVideoElement | null;
+  source: FrameSource | null; // Photos are detected once, videos continually
+  maxFaces?: number;
+  detectionFrequency?: number;
+  inputSize?: number;
+  // "worker" runs detection off the main thread where supported
+  backend?: DetectionBackend;
   onDetectionComplete?: (result: FaceDetectionResult) => void;
+  onDetectionTiming?: (latencyMs: number) => void;
+}
+
+interface UseFaceDetectionReturn extends FaceDetectionState {
+  detectFrame: (frame: FrameSource) => Promise<FaceDetectionWithLandmarks[]>;
 }
 
 export function useFaceDetection({
   enabled = true,
-  videoElement,
+  source,
+  maxFaces = MAX_FACES,
+  detectionFrequency = DETECTION_FREQUENCY,
+  inputSize = FACE_DETECTION_OPTIONS.inputSize,
+  backend = "worker",
   onDetectionComplete,
-}: UseFaceDetectionOptions): FaceDetectionState {
+  onDetectionTiming,
+}: UseFaceDetectionOptions): UseFaceDetectionReturn {
   const [state, setState] = useState<FaceDetectionState>({
     isModelLoaded: false,
     isModelLoading: false,
@@ -31,10 +55,26 @@ export function useFaceDetection({
     detections: null,
   });
 
-  const detectionInterval = useRef<number | null>(null);
   const isRunningRef = useRef(false);
+  // Settles when the detection in flight is over
+  const runDoneRef = useRef<Promise<void>>(Promise.resolve());
+  const sourceRef = useRef(source);
+  const workerDetectorRef = useRef<WorkerFaceDetector | null>(null);
+  const isMountedRef = useRef(false);
+
+  // Load face-api.js models on the main thread
+  const loadMainThreadModels = useCallback(async () => {
+    console.log("Loading tiny face detector...");
+    await faceapi.loadTinyFaceDetectorModel(MODEL_URL);
 
-  // Load face-api.js models
+    console.log("Loading face landmarks model...");
+    await faceapi.loadFaceLandmarkModel(MODEL_URL);
+
+    console.log("Loading face expression model...");
+    await faceapi.loadFaceExpressionModel(MODEL_URL);
+  }, []);
+
+  // Load models in the detection worker, or on the main thread as fallback
   const loadModels = useCallback(async () => {
     if (state.isModelLoaded || state.isModelLoading) return;
 
@@ -43,15 +83,34 @@ export function useFaceDetection({
     try {
       console.log("Loading face detection models from:", MODEL_URL);
 
-      // Load models with more detailed error handling
-      console.log("Loading tiny face detector...");
-      await faceapi.loadTinyFaceDetectorModel(MODEL_URL);
-
-      console.log("Loading face landmarks model...");
-      await faceapi.loadFaceLandmarkModel(MODEL_URL);
+      if (backend === "worker" && supportsWorkerDetection()) {
+        const detector = new WorkerFaceDetector();
+        try {
+          await detector.load(MODEL_URL);
+          // A concurrent load (e.g. StrictMode remount) may have won the
+          // race, or the hook unmounted while the worker loaded
+          if (!isMountedRef.current) {
+            detector.terminate();
+            return;
+          }
+          if (workerDetectorRef.current) {
+            detector.terminate();
+          } else {
+            workerDetectorRef.current = detector;
+          }
+          console.log("Face detection running in a Web Worker");
+        } catch (workerError) {
+          console.warn(
+            "Detection worker unavailable, using main thread:",
+            workerError
+          );
+          detector.terminate();
+        }
+      }
 
-      console.log("Loading face expression model...");
-      await faceapi.loadFaceExpressionModel(MODEL_URL);
+      if (!workerDetectorRef.current) {
+        await loadMainThreadModels();
+      }
 
       setState((prev) => ({
         ...prev,
@@ -88,39 +147,63 @@ export function useFaceDetection({
         error: new Error(errorMessage),
       }));
     }
-  }, [state.isModelLoaded, state.isModelLoading]);
+  }, [
+    state.isModelLoaded,
+    state.isModelLoading,
+    backend,
+    loadMainThreadModels,
+  ]);
+
+  // Detect faces in a frame with landmarks and expressions
+  const runDetection = useCallback(
+    async (frame: FrameSource) => {
+      const detectionOptions = { ...FACE_DETECTION_OPTIONS, inputSize };
+      const detections = workerDetectorRef.current
+        ? await workerDetectorRef.current.detect(frame, detectionOptions)
+        : await faceapi
+            .detectAllFaces(
+              frame,
+              new faceapi.TinyFaceDetectorOptions(detectionOptions)
+            )
+            .withFaceLandmarks()
+            .withFaceExpressions();
+
+      // Filter by confidence, keep the most confident maxFaces and order
+      // them left to right so per-face slots stay stable between runs
+      return detections
+        .filter((d) => d.detection.score > MIN_DETECTION_CONFIDENCE)
+        .sort((a, b) => b.detection.score - a.detection.score)
+        .slice(0, maxFaces)
+        .sort((a, b) => a.detection.box.x - b.detection.box.x);
+    },
+    [inputSize, maxFaces]
+  );
 
-  // Detect faces from video
+  // Detect faces in the current frame
   const detectFaces = useCallback(async () => {
-    if (
-      !videoElement ||
-      !state.isModelLoaded ||
-      !enabled ||
-      isRunningRef.current
-    )
+    if (!source || !state.isModelLoaded || !enabled || isRunningRef.current)
       return;
 
-    // Skip if video is not ready
-    if (videoElement.paused || videoElement.ended || !videoElement.readyState) {
+    // Skip if there's no frame yet
+    if (!isFrameReady(source)) {
       return;
     }
 
     isRunningRef.current = true;
+    let finishRun: () => void = () => {};
+    runDoneRef.current = new Promise((resolve) => {
+      finishRun = resolve;
+    });
+    const startedAt = performance.now();
 
     try {
-      // Detect faces with landmarks and expressions
-      const detections = await faceapi
-        .detectAllFaces(
-          videoElement,
-          new faceapi.TinyFaceDetectorOptions(FACE_DETECTION_OPTIONS)
-        )
-        .withFaceLandmarks()
-        .withFaceExpressions();
-
-      // Filter by confidence and limit to MAX_FACES
-      const validDetections = detections
-        .filter((d) => d.detection.score > MIN_DETECTION_CONFIDENCE)
-        .slice(0, MAX_FACES);
+      const validDetections = await runDetection(source);
+
+      onDetectionTiming?.(performance.now() - startedAt);
+
+      // Faces of a source that was switched away from don't belong on
+      // the new one
+      if (sourceRef.current !== source) return;
 
       // Get expressions from the first detected face (if any)
       const expressions =
@@ -140,39 +223,109 @@ export function useFaceDetection({
       }
     } catch (error) {
       console.error("Face detection error:", error);
+
+      // If the worker broke, carry on detecting on the main thread
+      if (workerDetectorRef.current) {
+        console.warn("Falling back to main-thread face detection");
+        workerDetectorRef.current.terminate();
+        workerDetectorRef.current = null;
+        try {
+          await loadMainThreadModels();
+        } catch (loadError) {
+          console.error("Error loading face detection models:", loadError);
+        }
+      }
     } finally {
       isRunningRef.current = false;
+      finishRun();
     }
-  }, [videoElement, state.isModelLoaded, enabled, onDetectionComplete]);
+  }, [
+    source,
+    state.isModelLoaded,
+    enabled,
+    runDetection,
+    onDetectionComplete,
+    onDetectionTiming,
+    loadMainThreadModels,
+  ]);
+
+  // Forget the previous source's faces when it changes
+  useEffect(() => {
+    sourceRef.current = source;
+    setState((prev) =>
+      prev.detections ? { ...prev, detections: null } : prev
+    );
+  }, [source]);
 
-  // Setup detection interval
+  // Setup detection loop
   useEffect(() => {
-    if (!enabled || !state.isModelLoaded || !videoElement) return;
+    if (!enabled || !state.isModelLoaded || !source) return;
 
-    const intervalId = setInterval(detectFaces, DETECTION_FREQUENCY);
-    detectionInterval.current = intervalId;
+    // A photo gets a single pass, once a run still going for the previous
+    // source is over
+    if (isStillFrame(source)) {
+      let isCancelled = false;
+      runDoneRef.current.then(() => {
+        if (!isCancelled) detectFaces();
+      });
+      return () => {
+        isCancelled = true;
+      };
+    }
 
-    return () => {
-      if (detectionInterval.current) {
-        clearInterval(detectionInterval.current);
-        detectionInterval.current = null;
+    // Playing video is detected every detectionFrequency ms on the frame
+    // clock, which keeps going in a hidden tab; paused video again whenever
+    // it is scrubbed to a new frame
+    let lastDetection = -Infinity;
+    let cancelFrame = () => {};
+    const detectWhilePlaying = (now: number) => {
+      if (
+        now - lastDetection >= detectionFrequency &&
+        !source.paused &&
+        !source.ended
+      ) {
+        lastDetection = now;
+        detectFaces();
       }
+      cancelFrame = requestFrame(detectWhilePlaying);
+    };
+    source.addEventListener("seeked", detectFaces);
+    cancelFrame = requestFrame(detectWhilePlaying);
+
+    return () => {
+      source.removeEventListener("seeked", detectFaces);
+      cancelFrame();
     };
-  }, [detectFaces, enabled, state.isModelLoaded, videoElement]);
+  }, [detectFaces, detectionFrequency, enabled, state.isModelLoaded, source]);
 
   // Load models when component mounts
   useEffect(() => {
     if (enabled) {
       loadModels();
     }
+  }, [enabled, loadModels]);
 
+  // Stop the detection worker on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
     return () => {
-      if (detectionInterval.current) {
-        clearInterval(detectionInterval.current);
-        detectionInterval.current = null;
-      }
+      isMountedRef.current = false;
+      workerDetectorRef.current?.terminate();
+      workerDetectorRef.current = null;
     };
-  }, [enabled, loadModels]);
+  }, []);
+
+  // One detection on demand, for rendering a video frame by frame. It
+  // doesn't touch the live detections and runs even while disabled.
+  const detectFrame = useCallback(
+    async (frame: FrameSource) => {
+      if (!state.isModelLoaded) {
+        throw new Error("Face detection models aren't loaded yet");
+      }
+      return runDetection(frame);
+    },
+    [state.isModelLoaded, runDetection]
+  );
 
-  return state;
+  return { ...state, detectFrame };
 }
@@ -0,0 +1,51 @@
+import { useEffect, useCallback } from "react";
+import type { Filter } from "../types/Filter";
+import {
+  loadFilterManifestIndex,
+  readFilterManifestFile,
+} from "../utils/filterManifest";
+import { registerFilter } from "../utils/filterRegistry";
+import { FILTER_MANIFEST_INDEX_URL } from "../constants";
+
+/**
+ * Registers the JSON filter manifests listed in the public index, and
+ * imports manifests the user drops or picks
+ */
+export function useFilterManifests(indexUrl = FILTER_MANIFEST_INDEX_URL) {
+  useEffect(() => {
+    let cancelled = false;
+    const unregisters: (() => void)[] = [];
+
+    loadFilterManifestIndex(indexUrl)
+      .then(({ filters, errors }) => {
+        if (cancelled) return;
+        errors.forEach((error) =>
+          console.warn("⚠️ Skipped filter manifest:", error.message)
+        );
+        filters.forEach((filter) => unregisters.push(registerFilter(filter)));
+        if (filters.length > 0) {
+          console.log(`🧩 Registered ${filters.length} manifest filter(s)`);
+        }
+      })
+      .catch((error) => {
+        console.warn("⚠️ Could not load filter manifest index:", error);
+      });
+
+    return () => {
+      cancelled = true;
+      unregisters.forEach((unregister) => unregister());
+    };
+  }, [indexUrl]);
+
+  const importManifestFile = useCallback(
+    async (file: File): Promise<Filter> => {
+      const filter = await readFilterManifestFile(file);
+      registerFilter(filter);
+      console.log(`🧩 Imported filter manifest: ${filter.name}`);
+      return filter;
+    },
+    []
+  );
+
+  return { importManifestFile };
+}
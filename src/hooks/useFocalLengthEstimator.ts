@@ -0,0 +1,88 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { FaceDetectionWithLandmarks } from "../types/FaceDetection";
+import type { FrameSource } from "../types/InputSource";
+import { estimateFocalLength } from "../utils/cameraProjection";
+import { getFrameSize } from "../utils/frameSource";
+import { MIN_DETECTION_CONFIDENCE, PROJECTION_OPTIONS } from "../constants";
+
+interface FocalLengthEstimatorState {
+  estimatedFocalLength: number | null;
+  isEstimating: boolean;
+  progress: number; // 0-1 while collecting samples
+  startEstimation: () => void;
+  cancelEstimation: () => void;
+}
+
+/**
+ * Estimates the webcam focal length from landmark samples collected while
+ * the user turns their head
+ */
+export function useFocalLengthEstimator(
+  detections: FaceDetectionWithLandmarks[] | null,
+  source: FrameSource | null
+): FocalLengthEstimatorState {
+  const [estimatedFocalLength, setEstimatedFocalLength] = useState<
+    number | null
+  >(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const samplesRef = useRef<{ x: number; y: number }[][]>([]);
+  const lastSampleRef = useRef(0);
+
+  const startEstimation = useCallback(() => {
+    samplesRef.current = [];
+    setProgress(0);
+    setIsEstimating(true);
+  }, []);
+
+  const cancelEstimation = useCallback(() => {
+    samplesRef.current = [];
+    setProgress(0);
+    setIsEstimating(false);
+  }, []);
+
+  // Collect the most confident face from each detection run
+  useEffect(() => {
+    if (!isEstimating || !source || !detections?.length) return;
+
+    const now = performance.now();
+    if (now - lastSampleRef.current < PROJECTION_OPTIONS.sampleInterval) {
+      return;
+    }
+
+    const face = detections.reduce((best, detection) =>
+      detection.detection.score > best.detection.score ? detection : best
+    );
+    if (face.detection.score < MIN_DETECTION_CONFIDENCE) return;
+
+    lastSampleRef.current = now;
+    samplesRef.current.push(
+      face.landmarks.positions.map((p) => ({ x: p.x, y: p.y }))
+    );
+
+    const count = samplesRef.current.length;
+    setProgress(count / PROJECTION_OPTIONS.estimationSamples);
+    if (count < PROJECTION_OPTIONS.estimationSamples) return;
+
+    const { width, height } = getFrameSize(source);
+    const focalLength = estimateFocalLength(samplesRef.current, width, height, {
+      min: PROJECTION_OPTIONS.minHorizontalFov,
+      max: PROJECTION_OPTIONS.maxHorizontalFov,
+    });
+    console.log(
+      `📐 Estimated webcam focal length: ${Math.round(focalLength)}px`
+    );
+
+    samplesRef.current = [];
+    setEstimatedFocalLength(focalLength);
+    setIsEstimating(false);
+  }, [detections, isEstimating, source]);
+
+  return {
+    estimatedFocalLength,
+    isEstimating,
+    progress,
+    startEstimation,
+    cancelEstimation,
+  };
+}
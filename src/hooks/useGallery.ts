@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from "react";
+import type { GalleryItem, NewCapture } from "../types/Gallery";
+import {
+  deleteCaptures as deleteStoredCaptures,
+  getCaptureMedia,
+  listCaptures,
+  saveCapture,
+} from "../utils/galleryStore";
+import { createThumbnail } from "../utils/thumbnail";
+import { createZip } from "../utils/zip";
+import { downloadBlob } from "../utils/download";
+
+interface UseGalleryReturn {
+  items: GalleryItem[];
+  isLoading: boolean;
+  error: Error | null;
+  canShare: boolean;
+  addCapture: (capture: NewCapture) => Promise<GalleryItem>;
+  deleteCaptures: (ids: string[]) => Promise<void>;
+  downloadCaptures: (ids: string[]) => Promise<void>;
+  shareCapture: (id: string) => Promise<void>;
+  getCaptureMedia: (id: string) => Promise<Blob>;
+}
+
+const canShareFiles = () =>
+  typeof navigator !== "undefined" &&
+  typeof navigator.canShare === "function" &&
+  typeof File !== "undefined";
+
+/**
+ * Photos, loops and videos kept in IndexedDB, newest first
+ */
+export function useGallery(): UseGalleryReturn {
+  const [items, setItems] = useState<GalleryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    listCaptures()
+      .then((stored) => {
+        if (isCancelled) return;
+        console.log(`🖼️ Gallery loaded with ${stored.length} captures`);
+        setItems(stored);
+      })
+      .catch((loadError) => {
+        console.error("Error loading gallery:", loadError);
+        if (!isCancelled) setError(loadError);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const addCapture = useCallback(async (capture: NewCapture) => {
+    const { thumbnail, width, height } = await createThumbnail(
+      capture.blob,
+      capture.kind
+    );
+    const createdAt = Date.now();
+    const item: GalleryItem = {
+      id: crypto.randomUUID(),
+      kind: capture.kind,
+      mimeType: capture.blob.type,
+      filename: `ar-face-filter-${createdAt}.${capture.extension}`,
+      size: capture.blob.size,
+      width,
+      height,
+      duration: capture.duration,
+      createdAt,
+      thumbnail,
+      filterIds: capture.filterIds,
+      calibration: capture.calibration,
+    };
+
+    await saveCapture(item, capture.blob);
+    setItems((prev) => [item, ...prev]);
+    return item;
+  }, []);
+
+  const deleteCaptures = useCallback(async (ids: string[]) => {
+    await deleteStoredCaptures(ids);
+    setItems((prev) => prev.filter((item) => !ids.includes(item.id)));
+  }, []);
+
+  // One capture downloads as itself, several as a zip
+  const downloadCaptures = useCallback(
+    async (ids: string[]) => {
+      const selected = items.filter((item) => ids.includes(item.id));
+      if (selected.length === 1) {
+        const [item] = selected;
+        downloadBlob(await getCaptureMedia(item.id), item.filename);
+        return;
+      }
+      if (selected.length === 0) return;
+
+      const entries = await Promise.all(
+        selected.map(async (item) => ({
+          name: item.filename,
+          blob: await getCaptureMedia(item.id),
+          date: new Date(item.createdAt),
+        }))
+      );
+      downloadBlob(
+        await createZip(entries),
+        `ar-face-filter-captures-${Date.now()}.zip`
+      );
+    },
+    [items]
+  );
+
+  // Hands the file to the system share sheet, downloading it where
+  // file sharing isn't available
+  const shareCapture = useCallback(
+    async (id: string) => {
+      const item = items.find((candidate) => candidate.id === id);
+      if (!item) return;
+
+      const media = await getCaptureMedia(id);
+      const file = new File([media], item.filename, { type: item.mimeType });
+      if (canShareFiles() && navigator.canShare({ files: [file] })) {
+        try {
+          await navigator.share({ files: [file], title: "AR Face Filter" });
+        } catch (shareError) {
+          // Closing the share sheet isn't an error
+          if (
+            !(shareError instanceof DOMException) ||
+            shareError.name !== "AbortError"
+          ) {
+            throw shareError;
+          }
+        }
+        return;
+      }
+      downloadBlob(media, item.filename);
+    },
+    [items]
+  );
+
+  return {
+    items,
+    isLoading,
+    error,
+    canShare: canShareFiles(),
+    addCapture,
+    deleteCaptures,
+    downloadCaptures,
+    shareCapture,
+    getCaptureMedia,
+  };
+}
@@ -0,0 +1,322 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { OfflineRender, OfflineRenderPhase } from "../types/Recording";
+import type { FaceDetectionWithLandmarks } from "../types/FaceDetection";
+import { drawCompositeFrame } from "../utils/compositing";
+import { createAppError, ERROR_CODES } from "../utils/errorHandling";
+import { muxWebm } from "../utils/webmMuxer";
+import type { WebmCodec, WebmFrame } from "../utils/webmMuxer";
+import { OFFLINE_RENDER_OPTIONS } from "../constants";
+
+// WebCodecs codec strings, most preferred first
+const CODECS: { codec: string; webmCodec: WebmCodec }[] = [
+  { codec: "vp09.00.40.08", webmCodec: "V_VP9" },
+  { codec: "vp8", webmCodec: "V_VP8" },
+];
+
+/**
+ * Whether this browser can encode video frame by frame
+ */
+export const isOfflineRenderSupported = () =>
+  typeof VideoEncoder !== "undefined" && typeof VideoFrame !== "undefined";
+
+const findEncoderConfig = async (
+  settings: Omit<VideoEncoderConfig, "codec">
+) => {
+  for (const { codec, webmCodec } of CODECS) {
+    const config = { ...settings, codec };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { config, webmCodec };
+  }
+  return null;
+};
+
+/**
+ * Seeks a paused video and waits until the new frame can be drawn. Where
+ * requestVideoFrameCallback exists it tells us the frame was presented;
+ * seeking onto the frame already shown presents nothing, so that wait is
+ * cut short.
+ */
+const seekFrame = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const canWaitForFrame = "requestVideoFrameCallback" in video;
+    let isSeeked = false;
+    let isPresented = !canWaitForFrame;
+    let frameTimer = 0;
+    let callbackId = 0;
+
+    const cleanup = () => {
+      clearTimeout(seekTimer);
+      clearTimeout(frameTimer);
+      video.removeEventListener("seeked", handleSeeked);
+      if (canWaitForFrame) video.cancelVideoFrameCallback(callbackId);
+    };
+    const finish = () => {
+      cleanup();
+      resolve();
+    };
+    const handleSeeked = () => {
+      isSeeked = true;
+      if (isPresented) {
+        finish();
+      } else {
+        frameTimer = window.setTimeout(
+          finish,
+          OFFLINE_RENDER_OPTIONS.frameTimeout
+        );
+      }
+    };
+    const seekTimer = window.setTimeout(() => {
+      cleanup();
+      reject(new Error(`Seeking to ${time.toFixed(2)}s timed out`));
+    }, OFFLINE_RENDER_OPTIONS.seekTimeout);
+
+    if (canWaitForFrame) {
+      callbackId = video.requestVideoFrameCallback(() => {
+        isPresented = true;
+        if (isSeeked) finish();
+      });
+    }
+    video.addEventListener("seeked", handleSeeked);
+    video.currentTime = time;
+  });
+
+// What the render needs from the detector and the 3D overlay
+interface FrameRenderer {
+  detect: (frame: HTMLVideoElement) => Promise<FaceDetectionWithLandmarks[]>;
+  renderOverlay: (
+    detections: FaceDetectionWithLandmarks[],
+    width: number,
+    height: number
+  ) => HTMLCanvasElement | null;
+}
+
+interface UseOfflineRenderOptions {
+  frameRate?: number;
+  bitrate?: number;
+  onRenderComplete?: (render: OfflineRender) => void;
+  onError?: (error: Error) => void;
+}
+
+interface UseOfflineRenderReturn {
+  phase: OfflineRenderPhase;
+  progress: number; // 0-1 of the frames rendered
+  isSupported: boolean;
+  renderVideo: (
+    videoElement: HTMLVideoElement,
+    renderer: FrameRenderer
+  ) => Promise<void>;
+  cancelRender: () => void;
+}
+
+/**
+ * Renders an uploaded video with the filters applied, one frame at a time.
+ * Each frame is seeked to, detected and drawn before moving on, so every
+ * frame gets its own detection however slow the device is. Frames are
+ * encoded with WebCodecs and written to a WebM file.
+ */
+export function useOfflineRender({
+  frameRate = OFFLINE_RENDER_OPTIONS.frameRate,
+  bitrate = OFFLINE_RENDER_OPTIONS.bitrate,
+  onRenderComplete,
+  onError,
+}: UseOfflineRenderOptions = {}): UseOfflineRenderReturn {
+  const [phase, setPhase] = useState<OfflineRenderPhase>("idle");
+  const [progress, setProgress] = useState(0);
+  const [isSupported] = useState(isOfflineRenderSupported);
+  // Bumped to abandon the render in progress
+  const renderIdRef = useRef(0);
+
+  const renderVideo = useCallback(
+    async (videoElement: HTMLVideoElement, renderer: FrameRenderer) => {
+      const renderId = ++renderIdRef.current;
+      const isCancelled = () => renderIdRef.current !== renderId;
+      const startTime = videoElement.currentTime;
+      const wasPaused = videoElement.paused;
+      let encoder: VideoEncoder | null = null;
+
+      try {
+        if (!isOfflineRenderSupported()) {
+          throw createAppError(
+            "Rendering video files isn't supported in this browser",
+            { code: ERROR_CODES.BROWSER_UNSUPPORTED }
+          );
+        }
+
+        if (
+          videoElement.readyState < 2 ||
+          !Number.isFinite(videoElement.duration)
+        ) {
+          throw new Error("Video not ready for rendering");
+        }
+
+        // Encoders want even dimensions
+        const width = videoElement.videoWidth & ~1;
+        const height = videoElement.videoHeight & ~1;
+        const encoderConfig = await findEncoderConfig({
+          width,
+          height,
+          bitrate,
+          framerate: frameRate,
+        });
+        if (!encoderConfig) {
+          throw createAppError(
+            `This browser can't encode ${width}×${height} WebM video`,
+            {
+              code: ERROR_CODES.BROWSER_UNSUPPORTED,
+              context: { width, height },
+            }
+          );
+        }
+        if (isCancelled()) return;
+
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) {
+          throw new Error("Could not get canvas context");
+        }
+
+        const frames: WebmFrame[] = [];
+        let encodeError = null as Error | null;
+        encoder = new VideoEncoder({
+          output: (chunk) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            frames.push({
+              data,
+              timestamp: Math.round(chunk.timestamp / 1000),
+              isKeyFrame: chunk.type === "key",
+            });
+          },
+          error: (error) => {
+            encodeError = error;
+          },
+        });
+        encoder.configure(encoderConfig.config);
+
+        const frameCount = Math.max(
+          1,
+          Math.floor(videoElement.duration * frameRate)
+        );
+        const keyFrameEvery = Math.round(
+          OFFLINE_RENDER_OPTIONS.keyFrameInterval * frameRate
+        );
+        const frameDuration = 1_000_000 / frameRate; // µs
+
+        console.log(
+          `🎬 Rendering ${frameCount} frames at ${frameRate}fps (${encoderConfig.config.codec})`
+        );
+        videoElement.pause();
+        setPhase("rendering");
+        setProgress(0);
+
+        for (let i = 0; i < frameCount; i++) {
+          await seekFrame(videoElement, i / frameRate);
+          if (isCancelled()) return;
+
+          const detections = await renderer.detect(videoElement);
+          if (isCancelled()) return;
+
+          drawCompositeFrame(
+            ctx,
+            videoElement,
+            renderer.renderOverlay(detections, width, height)
+          );
+          const frame = new VideoFrame(canvas, {
+            timestamp: Math.round(i * frameDuration),
+            duration: Math.round(frameDuration),
+          });
+          encoder.encode(frame, { keyFrame: i % keyFrameEvery === 0 });
+          frame.close();
+
+          if (encodeError) throw encodeError;
+          setProgress((i + 1) / frameCount);
+        }
+
+        setPhase("finishing");
+        await encoder.flush();
+        if (encodeError) throw encodeError;
+        if (isCancelled()) return;
+
+        const duration = (frameCount / frameRate) * 1000;
+        const blob = new Blob(
+          [
+            muxWebm(frames, {
+              codec: encoderConfig.webmCodec,
+              width,
+              height,
+              frameRate,
+              duration,
+            }),
+          ],
+          { type: "video/webm" }
+        );
+
+        console.log(
+          `✅ Rendered ${(duration / 1000).toFixed(1)}s of WebM: ${(blob.size / 1024).toFixed(0)}KB`
+        );
+        setPhase("idle");
+        setProgress(0);
+        onRenderComplete?.({
+          blob,
+          width,
+          height,
+          frameCount,
+          frameRate,
+          duration,
+        });
+      } catch (error) {
+        if (isCancelled()) return;
+        console.error("Error rendering video:", error);
+
+        setPhase("idle");
+        setProgress(0);
+        onError?.(
+          createAppError(
+            error instanceof Error ? error.message : "Unknown render error",
+            {
+              code: ERROR_CODES.RECORDING_FAILED,
+              context: { frameRate, bitrate },
+              originalError: error instanceof Error ? error : undefined,
+            }
+          )
+        );
+      } finally {
+        if (encoder && encoder.state !== "closed") encoder.close();
+
+        // Put the video back the way the user left it
+        if (videoElement.isConnected) {
+          videoElement.currentTime = startTime;
+          if (!wasPaused) {
+            videoElement.play().catch(() => {
+              // A paused video is fine, the user can press play
+            });
+          }
+        }
+      }
+    },
+    [frameRate, bitrate, onRenderComplete, onError]
+  );
+
+  const cancelRender = useCallback(() => {
+    renderIdRef.current += 1;
+    setPhase("idle");
+    setProgress(0);
+    console.log("🚫 Video render cancelled");
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      renderIdRef.current += 1;
+    };
+  }, []);
+
+  return {
+    phase,
+    progress,
+    isSupported,
+    renderVideo,
+    cancelRender,
+  };
+}
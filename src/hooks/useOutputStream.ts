@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type {
+  OutputStreamApi,
+  OutputStreamSettings,
+} from "../types/OutputStream";
+import type { FrameSource } from "../types/InputSource";
+import { drawCompositeFrame } from "../utils/compositing";
+import { getFrameSize, isFrameReady } from "../utils/frameSource";
+import { requestFrame } from "../utils/frameClock";
+import { CANVAS_SIZE } from "../constants";
+
+interface OutputSession {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  stream: MediaStream;
+  lastFrameAt: number;
+}
+
+interface UseOutputStreamOptions {
+  source: FrameSource | null;
+  getOverlayCanvas: () => HTMLCanvasElement | null;
+  settings: OutputStreamSettings;
+}
+
+interface UseOutputStreamReturn {
+  stream: MediaStream | null;
+  size: { width: number; height: number } | null; // Of the frames sent
+  start: () => MediaStream | null;
+  stop: () => void;
+  openWindow: () => void;
+  api: OutputStreamApi;
+}
+
+// Scale the source to the chosen height, keeping even dimensions for
+// video encoders
+const getOutputSize = (source: FrameSource, resolution: number) => {
+  const { width, height } = getFrameSize(source);
+  if (!resolution || !height) return { width, height };
+
+  const scaledWidth = Math.round((width * resolution) / height / 2) * 2;
+  return { width: scaledWidth, height: resolution };
+};
+
+/**
+ * Composites the source and filter overlay into a canvas and captures it
+ * as a MediaStream other apps can use as a camera. The source, overlay and
+ * settings are read every frame, so the stream carries on across camera
+ * switches and settings changes. Frames come from the frame clock, so the
+ * stream keeps going while the app's tab is hidden behind a call app.
+ */
+export function useOutputStream({
+  source,
+  getOverlayCanvas,
+  settings,
+}: UseOutputStreamOptions): UseOutputStreamReturn {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(
+    null
+  );
+  const sessionRef = useRef<OutputSession | null>(null);
+  const cancelFrameRef = useRef<(() => void) | null>(null);
+  const popupRef = useRef<Window | null>(null);
+  const listenersRef = useRef(new Set<(stream: MediaStream | null) => void>());
+
+  // Read by the draw loop, which outlives any one render
+  const sourceRef = useRef(source);
+  const getOverlayRef = useRef(getOverlayCanvas);
+  const settingsRef = useRef(settings);
+  useEffect(() => {
+    sourceRef.current = source;
+    getOverlayRef.current = getOverlayCanvas;
+    settingsRef.current = settings;
+  }, [source, getOverlayCanvas, settings]);
+
+  const publish = useCallback((next: MediaStream | null) => {
+    setStream(next);
+    listenersRef.current.forEach((listener) => listener(next));
+  }, []);
+
+  const stop = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    sessionRef.current = null;
+    cancelFrameRef.current?.();
+    cancelFrameRef.current = null;
+    session.stream.getTracks().forEach((track) => track.stop());
+    popupRef.current?.close();
+    popupRef.current = null;
+    setSize(null);
+    publish(null);
+    console.log("📡 Output stream stopped");
+  }, [publish]);
+
+  const start = useCallback(() => {
+    if (sessionRef.current) return sessionRef.current.stream;
+
+    const initialSource = sourceRef.current;
+    if (!initialSource || !isFrameReady(initialSource)) return null;
+
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      console.error("Could not get canvas context for the output stream");
+      return null;
+    }
+
+    const drawFrame = (now: number) => {
+      if (sessionRef.current !== session) return;
+      cancelFrameRef.current = requestFrame(drawFrame);
+
+      const { mirrored, resolution, frameRate } = settingsRef.current;
+      if (now - session.lastFrameAt < 1000 / frameRate - 1) return;
+      session.lastFrameAt = now;
+
+      // Keep sending the last frame while the source is switching
+      const frameSource = sourceRef.current;
+      if (!frameSource || !isFrameReady(frameSource)) return;
+
+      const { width, height } = getOutputSize(frameSource, resolution);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+        setSize({ width, height });
+      }
+      drawCompositeFrame(ctx, frameSource, getOverlayRef.current(), {
+        mirrored,
+      });
+    };
+
+    // Without a frame rate the stream takes a frame each time the canvas is
+    // drawn, so the draw loop sets the rate
+    const session: OutputSession = {
+      canvas,
+      ctx,
+      stream: canvas.captureStream(),
+      lastFrameAt: -Infinity,
+    };
+    sessionRef.current = session;
+    drawFrame(performance.now());
+    publish(session.stream);
+    console.log("📡 Output stream started");
+    return session.stream;
+  }, [publish]);
+
+  // A bare window showing the stream, for screen and window capture tools
+  const openWindow = useCallback(() => {
+    const outputStream = start();
+    if (!outputStream) return;
+
+    if (popupRef.current && !popupRef.current.closed) {
+      popupRef.current.focus();
+      return;
+    }
+
+    // Sized to the frames, which start() has already drawn once
+    const { width, height } = sessionRef.current?.canvas ?? CANVAS_SIZE;
+    const popup = window.open(
+      "",
+      "ar-face-filter-output",
+      `width=${width},height=${height}`
+    );
+    if (!popup) {
+      alert("The output window was blocked. Please allow pop-ups.");
+      return;
+    }
+
+    const doc = popup.document;
+    doc.title = "AR Face Filter Output";
+    doc.body.style.margin = "0";
+    doc.body.style.background = "black";
+    doc.body.style.overflow = "hidden";
+    const video = doc.createElement("video");
+    video.autoplay = true;
+    video.muted = true;
+    video.playsInline = true;
+    video.style.width = "100vw";
+    video.style.height = "100vh";
+    video.style.objectFit = "contain";
+    video.srcObject = outputStream;
+    doc.body.replaceChildren(video);
+    popupRef.current = popup;
+  }, [start]);
+
+  const subscribe = useCallback(
+    (listener: (stream: MediaStream | null) => void) => {
+      listenersRef.current.add(listener);
+      return () => {
+        listenersRef.current.delete(listener);
+      };
+    },
+    []
+  );
+
+  const api = useMemo<OutputStreamApi>(
+    () => ({
+      start,
+      stop,
+      getStream: () => sessionRef.current?.stream ?? null,
+      subscribe,
+    }),
+    [start, stop, subscribe]
+  );
+
+  // Stop streaming and close the output window on unmount
+  useEffect(() => stop, [stop]);
+
+  return { stream, size, start, stop, openWindow, api };
+}
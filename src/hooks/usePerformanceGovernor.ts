@@ -0,0 +1,81 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import {
+  PerformanceGovernor,
+  getInitialTierIndex,
+} from "../utils/performanceGovernor";
+import type {
+  PerformanceTier,
+  PerformanceStats,
+} from "../utils/performanceGovernor";
+import {
+  createAnimationLoop,
+  detectPerformanceSettings,
+  throttle,
+} from "../utils/modelLoader";
+import { PERFORMANCE_TIERS, GOVERNOR_OPTIONS } from "../constants";
+
+interface UsePerformanceGovernorOptions {
+  enabled?: boolean;
+}
+
+interface UsePerformanceGovernorReturn {
+  tier: PerformanceTier;
+  stats: PerformanceStats;
+  pixelRatio: number;
+  recordDetection: (latencyMs: number) => void;
+}
+
+export function usePerformanceGovernor({
+  enabled = GOVERNOR_OPTIONS.enabled,
+}: UsePerformanceGovernorOptions = {}): UsePerformanceGovernorReturn {
+  const governorRef = useRef<PerformanceGovernor | null>(null);
+  if (!governorRef.current) {
+    // Start from the static device heuristics, then adapt to measurements
+    const settings = detectPerformanceSettings();
+    governorRef.current = new PerformanceGovernor(
+      PERFORMANCE_TIERS,
+      getInitialTierIndex(PERFORMANCE_TIERS, settings),
+      GOVERNOR_OPTIONS
+    );
+  }
+
+  const [tierIndex, setTierIndex] = useState(governorRef.current.tierIndex);
+  const [stats, setStats] = useState<PerformanceStats>(
+    governorRef.current.stats
+  );
+
+  // Measure the main-thread frame rate the overlays render at
+  useEffect(() => {
+    const governor = governorRef.current;
+    if (!enabled || !governor) return;
+
+    const evaluate = throttle(() => {
+      if (governor.evaluate(performance.now())) {
+        console.log(`⚙️ Performance tier changed to ${governor.tier.label}`);
+        setTierIndex(governor.tierIndex);
+      }
+      setStats(governor.stats);
+    }, GOVERNOR_OPTIONS.evaluationInterval);
+
+    const loop = createAnimationLoop(() => {
+      governor.recordFrame(performance.now());
+      evaluate();
+    });
+
+    loop.start();
+    return () => loop.stop();
+  }, [enabled]);
+
+  const recordDetection = useCallback((latencyMs: number) => {
+    governorRef.current?.recordDetection(latencyMs);
+  }, []);
+
+  const tier = PERFORMANCE_TIERS[tierIndex];
+
+  return {
+    tier,
+    stats,
+    pixelRatio: Math.min(window.devicePixelRatio || 1, tier.maxPixelRatio),
+    recordDetection,
+  };
+}
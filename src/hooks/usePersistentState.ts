@@ -0,0 +1,36 @@
+import { useCallback, useState } from "react";
+
+const readStoredValue = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored === null ? fallback : (JSON.parse(stored) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * useState that remembers its value in localStorage
+ */
+export function usePersistentState<T>(
+  key: string,
+  initialValue: T
+): [T, (value: T) => void] {
+  const [value, setValue] = useState<T>(() =>
+    readStoredValue(key, initialValue)
+  );
+
+  const setPersistentValue = useCallback(
+    (next: T) => {
+      setValue(next);
+      try {
+        localStorage.setItem(key, JSON.stringify(next));
+      } catch (error) {
+        console.warn(`Could not save setting ${key}:`, error);
+      }
+    },
+    [key]
+  );
+
+  return [value, setPersistentValue];
+}
@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  Recording,
+  RecordingFormat,
+  RecordingStatus,
+} from "../types/Recording";
+import { drawCompositeFrame } from "../utils/compositing";
+import { createAppError, ERROR_CODES } from "../utils/errorHandling";
+import { RECORDING_OPTIONS } from "../constants";
+
+// Container and codec candidates, most preferred first
+const MIME_TYPES: Record<RecordingFormat, string[]> = {
+  webm: ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"],
+  mp4: ["video/mp4;codecs=avc1", "video/mp4"],
+};
+
+const findMimeType = (format: RecordingFormat) =>
+  typeof MediaRecorder === "undefined"
+    ? undefined
+    : MIME_TYPES[format].find((type) => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Formats this browser can record
+ */
+export const getSupportedRecordingFormats = (): RecordingFormat[] =>
+  (Object.keys(MIME_TYPES) as RecordingFormat[]).filter((format) =>
+    findMimeType(format)
+  );
+
+interface RecordingSession {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  ctx: CanvasRenderingContext2D;
+  video: HTMLVideoElement;
+  getOverlay: () => HTMLCanvasElement | null;
+  chunks: Blob[];
+  format: RecordingFormat;
+  mimeType: string;
+  recordedTime: number; // ms recorded before the current segment
+  segmentStart: number | null; // null while paused
+}
+
+const getRecordedTime = (session: RecordingSession) =>
+  session.recordedTime +
+  (session.segmentStart === null
+    ? 0
+    : performance.now() - session.segmentStart);
+
+interface UseRecorderOptions {
+  format?: RecordingFormat;
+  frameRate?: number;
+  videoBitsPerSecond?: number;
+  maxDuration?: number; // ms
+  onRecordingComplete?: (recording: Recording) => void;
+  onError?: (error: Error) => void;
+}
+
+interface UseRecorderReturn {
+  status: RecordingStatus;
+  elapsed: number; // ms recorded so far, in whole seconds
+  supportedFormats: RecordingFormat[];
+  startRecording: (
+    videoElement: HTMLVideoElement,
+    getOverlayCanvas: () => HTMLCanvasElement | null
+  ) => void;
+  stopRecording: () => void;
+  pauseRecording: () => void;
+  resumeRecording: () => void;
+}
+
+/**
+ * Records the video with the filter overlay composited on top. Frames are
+ * drawn into an offscreen canvas on every animation frame and captured with
+ * MediaRecorder. The overlay is looked up every frame, so recording carries
+ * on when the overlay canvas is rebuilt.
+ */
+export function useRecorder({
+  format = "webm",
+  frameRate = RECORDING_OPTIONS.frameRate,
+  videoBitsPerSecond = RECORDING_OPTIONS.videoBitsPerSecond,
+  maxDuration = RECORDING_OPTIONS.maxDuration,
+  onRecordingComplete,
+  onError,
+}: UseRecorderOptions = {}): UseRecorderReturn {
+  const [status, setStatus] = useState<RecordingStatus>("inactive");
+  const [elapsed, setElapsed] = useState(0);
+  const [supportedFormats] = useState(getSupportedRecordingFormats);
+  const sessionRef = useRef<RecordingSession | null>(null);
+  const animationRef = useRef<number>(0);
+
+  // Release the canvas stream and stop drawing frames
+  const endSession = useCallback((session: RecordingSession) => {
+    cancelAnimationFrame(animationRef.current);
+    session.stream.getTracks().forEach((track) => track.stop());
+    if (sessionRef.current === session) {
+      sessionRef.current = null;
+    }
+    setStatus("inactive");
+    setElapsed(0);
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || session.recorder.state === "inactive") return;
+
+    session.recordedTime = getRecordedTime(session);
+    session.segmentStart = null;
+    // Flushes the last chunk, then onstop finishes the recording
+    session.recorder.stop();
+  }, []);
+
+  const startRecording = useCallback(
+    (
+      videoElement: HTMLVideoElement,
+      getOverlayCanvas: () => HTMLCanvasElement | null
+    ) => {
+      if (sessionRef.current) return;
+
+      try {
+        const mimeType = findMimeType(format);
+        if (!mimeType) {
+          throw createAppError(
+            `Recording ${format.toUpperCase()} isn't supported in this browser`,
+            {
+              code: ERROR_CODES.BROWSER_UNSUPPORTED,
+              context: { format },
+            }
+          );
+        }
+
+        if (videoElement.readyState < 2) {
+          throw new Error("Video not ready for recording");
+        }
+
+        const canvas = document.createElement("canvas");
+        canvas.width = videoElement.videoWidth || videoElement.clientWidth;
+        canvas.height = videoElement.videoHeight || videoElement.clientHeight;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) {
+          throw new Error("Could not get canvas context");
+        }
+
+        // Draw once so the stream starts with a frame
+        drawCompositeFrame(ctx, videoElement, getOverlayCanvas());
+
+        const stream = canvas.captureStream(frameRate);
+        const recorder = new MediaRecorder(stream, {
+          mimeType,
+          videoBitsPerSecond,
+        });
+
+        const session: RecordingSession = {
+          recorder,
+          stream,
+          ctx,
+          video: videoElement,
+          getOverlay: getOverlayCanvas,
+          chunks: [],
+          format,
+          mimeType,
+          recordedTime: 0,
+          segmentStart: performance.now(),
+        };
+
+        recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) {
+            session.chunks.push(event.data);
+          }
+        };
+
+        recorder.onstop = () => {
+          const blob = new Blob(session.chunks, {
+            type: mimeType.split(";")[0],
+          });
+          endSession(session);
+          console.log(
+            `🎬 Recorded ${(session.recordedTime / 1000).toFixed(1)}s of ${format.toUpperCase()}`
+          );
+          onRecordingComplete?.({
+            blob,
+            format,
+            mimeType,
+            duration: session.recordedTime,
+          });
+        };
+
+        recorder.onerror = () => {
+          endSession(session);
+          onError?.(
+            createAppError("Recording stopped unexpectedly", {
+              code: ERROR_CODES.RECORDING_FAILED,
+              context: { format, mimeType },
+            })
+          );
+        };
+
+        // Composite a frame on every animation frame until stopped
+        const drawFrame = () => {
+          if (sessionRef.current !== session) return;
+
+          drawCompositeFrame(ctx, session.video, session.getOverlay());
+
+          const recordedTime = getRecordedTime(session);
+          if (recordedTime >= maxDuration) {
+            console.log("⏱️ Maximum recording length reached");
+            stopRecording();
+            return;
+          }
+
+          const seconds = Math.floor(recordedTime / 1000) * 1000;
+          setElapsed(seconds);
+          animationRef.current = requestAnimationFrame(drawFrame);
+        };
+
+        sessionRef.current = session;
+        recorder.start(RECORDING_OPTIONS.timeslice);
+        animationRef.current = requestAnimationFrame(drawFrame);
+        setElapsed(0);
+        setStatus("recording");
+        console.log(`🔴 Recording started (${mimeType})`);
+      } catch (error) {
+        console.error("Error starting recording:", error);
+
+        const recordingError =
+          error instanceof Error
+            ? error
+            : createAppError("Unknown recording error", {
+                code: ERROR_CODES.RECORDING_FAILED,
+              });
+
+        onError?.(recordingError);
+      }
+    },
+    [
+      format,
+      frameRate,
+      videoBitsPerSecond,
+      maxDuration,
+      onRecordingComplete,
+      onError,
+      endSession,
+      stopRecording,
+    ]
+  );
+
+  const pauseRecording = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || session.recorder.state !== "recording") return;
+
+    session.recordedTime = getRecordedTime(session);
+    session.segmentStart = null;
+    session.recorder.pause();
+    setStatus("paused");
+  }, []);
+
+  const resumeRecording = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || session.recorder.state !== "paused") return;
+
+    session.segmentStart = performance.now();
+    session.recorder.resume();
+    setStatus("recording");
+  }, []);
+
+  // Discard an unfinished recording on unmount
+  useEffect(() => {
+    return () => {
+      const session = sessionRef.current;
+      if (!session) return;
+
+      sessionRef.current = null;
+      cancelAnimationFrame(animationRef.current);
+      session.recorder.onstop = null;
+      if (session.recorder.state !== "inactive") {
+        session.recorder.stop();
+      }
+      session.stream.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  return {
+    status,
+    elapsed,
+    supportedFormats,
+    startRecording,
+    stopRecording,
+    pauseRecording,
+    resumeRecording,
+  };
+}
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react";
+import type { Filter } from "../types/Filter";
+import {
+  getRegisteredFilters,
+  subscribeToFilters,
+} from "../utils/filterRegistry";
+
+/**
+ * Registered filters, re-rendering when filters are added or removed
+ */
+export function useRegisteredFilters(): Filter[] {
+  return useSyncExternalStore(subscribeToFilters, getRegisteredFilters);
+}
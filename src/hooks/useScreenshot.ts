@@ -1,32 +1,95 @@
 import { useCallback, useRef } from "react";
+import { drawCompositeFrame } from "../utils/compositing";
+import { drawWatermark } from "../utils/watermark";
+import { loadFilterImage } from "../utils/filterAssets";
+import { getFrameSize, isFrameReady } from "../utils/frameSource";
+import { PHOTO_CAPTURE_OPTIONS, PHOTO_FORMATS } from "../constants";
+import type {
+  OverlayRenderer,
+  PhotoFormat,
+  WatermarkSettings,
+} from "../types/Capture";
+import type { FrameSource } from "../types/InputSource";
 
 interface UseScreenshotOptions {
   quality?: number;
   filename?: string;
-  onScreenshotTaken?: (dataUrl: string) => void;
+  format?: PhotoFormat;
+  resolution?: number; // Output height in pixels, 0 for the video's own
+  filterLayerOnly?: boolean; // PNG only, leaves out the video
+  watermark?: WatermarkSettings;
+  onScreenshotTaken?: (dataUrl: string, blob: Blob) => void;
   onError?: (error: Error) => void;
 }
 
 interface UseScreenshotReturn {
   takeScreenshot: (
-    videoElement?: HTMLVideoElement | null,
-    filterCanvas?: HTMLCanvasElement | null
+    videoElement?: FrameSource | null,
+    filterCanvas?: HTMLCanvasElement | null,
+    overlayRenderer?: OverlayRenderer | null
   ) => Promise<string | null>;
   downloadScreenshot: (
-    videoElement?: HTMLVideoElement | null,
+    videoElement?: FrameSource | null,
     filterCanvas?: HTMLCanvasElement | null
   ) => Promise<void>;
-  lastScreenshot: string | null;
   setElementRef: (element: HTMLElement | null) => void;
 }
 
+/**
+ * Photo formats this browser can encode. Canvas quietly falls back to PNG
+ * for the ones it can't, so ask for each and check what comes back.
+ */
+export const getSupportedPhotoFormats = (): PhotoFormat[] => {
+  if (typeof document === "undefined") return [];
+  const canvas = document.createElement("canvas");
+  canvas.width = canvas.height = 1;
+  return (Object.keys(PHOTO_FORMATS) as PhotoFormat[]).filter((format) => {
+    const { mimeType } = PHOTO_FORMATS[format];
+    return canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+  });
+};
+
+const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality: number
+) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode screenshot")),
+      type,
+      quality
+    )
+  );
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// The logo if it loads, otherwise the watermark falls back to its text
+const loadWatermarkLogo = (watermark: WatermarkSettings) =>
+  watermark.logo
+    ? loadFilterImage(watermark.logo).catch((error) => {
+        console.warn("Could not load watermark logo:", error);
+        return null;
+      })
+    : Promise.resolve(null);
+
 export function useScreenshot({
-  quality = 0.95,
+  quality = PHOTO_CAPTURE_OPTIONS.quality,
   filename = "ar-face-filter",
+  format = "jpeg",
+  resolution = 0,
+  filterLayerOnly = false,
+  watermark,
   onScreenshotTaken,
   onError,
 }: UseScreenshotOptions = {}): UseScreenshotReturn {
-  const screenshotRef = useRef<string | null>(null);
   const elementRef = useRef<HTMLElement | null>(null);
 
   // Function to set the element reference
@@ -37,8 +100,9 @@ export function useScreenshot({
   // Function to take a screenshot by combining video and canvas
   const takeScreenshot = useCallback(
     async (
-      videoElement?: HTMLVideoElement | null,
-      filterCanvas?: HTMLCanvasElement | null
+      videoElement?: FrameSource | null,
+      filterCanvas?: HTMLCanvasElement | null,
+      overlayRenderer?: OverlayRenderer | null
     ): Promise<string | null> => {
       try {
         // Get video element if not provided
@@ -49,7 +113,7 @@ export function useScreenshot({
         }
 
         // Check if video is ready
-        if (video.readyState < 2) {
+        if (!isFrameReady(video)) {
           throw new Error("Video not ready for screenshot");
         }
 
@@ -61,65 +125,35 @@ export function useScreenshot({
           throw new Error("Could not get canvas context");
         }
 
-        // Set canvas dimensions to match video
-        canvas.width = video.videoWidth || video.clientWidth;
-        canvas.height = video.videoHeight || video.clientHeight;
-
-        // Draw the video frame to canvas
-        ctx.save();
-
-        // Handle mirrored video
-        const isVideoMirrored = video.style.transform.includes("scaleX(-1)");
-        if (isVideoMirrored) {
-          ctx.scale(-1, 1);
-          ctx.translate(-canvas.width, 0);
-        }
-
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        ctx.restore();
+        // Match the video, or the requested height at the video's aspect
+        const frameSize = getFrameSize(video);
+        const videoWidth = frameSize.width || video.clientWidth;
+        const videoHeight = frameSize.height || video.clientHeight;
+        canvas.height = resolution > 0 ? resolution : videoHeight;
+        canvas.width = Math.round((canvas.height * videoWidth) / videoHeight);
 
-        // Draw the filter overlay if available
+        // Re-render the overlay at the output size where the renderer can,
+        // rather than scaling up the on-screen canvas
         const overlay =
-          filterCanvas || elementRef.current?.querySelector("canvas");
-        if (overlay && overlay.width > 0 && overlay.height > 0) {
-          // Scale overlay to match canvas dimensions
-          const scaleX = canvas.width / overlay.width;
-          const scaleY = canvas.height / overlay.height;
-
-          ctx.save();
-          if (isVideoMirrored) {
-            ctx.scale(-1, 1);
-            ctx.translate(-canvas.width, 0);
-          }
-          ctx.scale(scaleX, scaleY);
-          ctx.drawImage(overlay, 0, 0);
-          ctx.restore();
+          overlayRenderer?.renderAt(canvas.width, canvas.height) ??
+          (filterCanvas || elementRef.current?.querySelector("canvas"));
+        drawCompositeFrame(ctx, video, overlay, {
+          includeVideo: !(filterLayerOnly && format === "png"),
+        });
+
+        if (watermark?.enabled) {
+          drawWatermark(ctx, watermark, await loadWatermarkLogo(watermark));
         }
 
-        // Convert to data URL
-        const dataUrl = canvas.toBlob
-          ? await new Promise<string>((resolve) => {
-              canvas.toBlob(
-                (blob) => {
-                  if (blob) {
-                    const reader = new FileReader();
-                    reader.onload = () => resolve(reader.result as string);
-                    reader.readAsDataURL(blob);
-                  } else {
-                    resolve(canvas.toDataURL("image/jpeg", quality));
-                  }
-                },
-                "image/jpeg",
-                quality
-              );
-            })
-          : canvas.toDataURL("image/jpeg", quality);
-
-        // Store the screenshot
-        screenshotRef.current = dataUrl;
+        const blob = await canvasToBlob(
+          canvas,
+          PHOTO_FORMATS[format].mimeType,
+          quality
+        );
+        const dataUrl = await readAsDataUrl(blob);
 
         if (onScreenshotTaken) {
-          onScreenshotTaken(dataUrl);
+          onScreenshotTaken(dataUrl, blob);
         }
 
         return dataUrl;
@@ -138,19 +172,25 @@ export function useScreenshot({
         return null;
       }
     },
-    [quality, onScreenshotTaken, onError]
+    [
+      quality,
+      format,
+      resolution,
+      filterLayerOnly,
+      watermark,
+      onScreenshotTaken,
+      onError,
+    ]
   );
 
   // Function to download the screenshot
   const downloadScreenshot = useCallback(
     async (
-      videoElement?: HTMLVideoElement | null,
+      videoElement?: FrameSource | null,
       filterCanvas?: HTMLCanvasElement | null
     ): Promise<void> => {
-      // Take a screenshot first if we don't have one stored
-      const dataUrl =
-        screenshotRef.current ||
-        (await takeScreenshot(videoElement, filterCanvas));
+      // Always a fresh shot, never the one stored from an earlier capture
+      const dataUrl = await takeScreenshot(videoElement, filterCanvas);
 
       if (!dataUrl) {
         throw new Error("Failed to capture screenshot");
@@ -158,19 +198,20 @@ export function useScreenshot({
 
       // Create a link element to download the image
       const link = document.createElement("a");
-      link.download = `${filename}-${new Date().getTime()}.jpg`;
+      link.download = `${filename}-${new Date().getTime()}.${
+        PHOTO_FORMATS[format].extension
+      }`;
       link.href = dataUrl;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
     },
-    [filename, takeScreenshot]
+    [filename, format, takeScreenshot]
   );
 
   return {
     takeScreenshot,
     downloadScreenshot,
-    lastScreenshot: screenshotRef.current,
     setElementRef,
   };
 }
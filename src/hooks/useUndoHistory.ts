@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { UNDO_HISTORY_LIMIT } from "../constants";
+
+interface UndoStacks<T> {
+  past: T[];
+  future: T[];
+}
+
+interface UseUndoHistoryReturn<T> {
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  // Call before an undoable change, with the state from before it if the
+  // change has already happened
+  record: (snapshot?: T) => void;
+  // Changes between the two become a single step
+  beginGesture: () => void;
+  endGesture: () => void;
+  clear: () => void;
+}
+
+/**
+ * Undo and redo through snapshots of some state. While a gesture such as
+ * a slider drag lasts only its first change is recorded, so the whole
+ * drag is undone at once.
+ * @param current The state as it is now
+ * @param restore Puts a snapshot back, without recording it
+ */
+export function useUndoHistory<T>(
+  current: T,
+  restore: (snapshot: T) => void
+): UseUndoHistoryReturn<T> {
+  const [stacks, setStacks] = useState<UndoStacks<T>>({
+    past: [],
+    future: [],
+  });
+  const gestureRef = useRef<"idle" | "started" | "recorded">("idle");
+
+  // Read by handlers between renders
+  const currentRef = useRef(current);
+  const restoreRef = useRef(restore);
+  useEffect(() => {
+    currentRef.current = current;
+    restoreRef.current = restore;
+  }, [current, restore]);
+
+  const record = useCallback((snapshot?: T) => {
+    if (gestureRef.current === "recorded") return;
+    if (gestureRef.current === "started") gestureRef.current = "recorded";
+
+    const before = snapshot === undefined ? currentRef.current : snapshot;
+    setStacks((prev) => ({
+      past: [...prev.past, before].slice(-UNDO_HISTORY_LIMIT),
+      future: [],
+    }));
+  }, []);
+
+  // Beginning again mid-gesture keeps it one step
+  const beginGesture = useCallback(() => {
+    if (gestureRef.current === "idle") gestureRef.current = "started";
+  }, []);
+
+  const endGesture = useCallback(() => {
+    gestureRef.current = "idle";
+  }, []);
+
+  const undo = useCallback(() => {
+    if (stacks.past.length === 0) return;
+
+    const snapshot = stacks.past[stacks.past.length - 1];
+    setStacks({
+      past: stacks.past.slice(0, -1),
+      future: [currentRef.current, ...stacks.future],
+    });
+    restoreRef.current(snapshot);
+  }, [stacks]);
+
+  const redo = useCallback(() => {
+    if (stacks.future.length === 0) return;
+
+    const [snapshot, ...future] = stacks.future;
+    setStacks({ past: [...stacks.past, currentRef.current], future });
+    restoreRef.current(snapshot);
+  }, [stacks]);
+
+  const clear = useCallback(() => {
+    setStacks({ past: [], future: [] });
+  }, []);
+
+  return {
+    canUndo: stacks.past.length > 0,
+    canRedo: stacks.future.length > 0,
+    undo,
+    redo,
+    record,
+    beginGesture,
+    endGesture,
+    clear,
+  };
+}
@@ -1,144 +1,156 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import Webcam from "react-webcam";
 import { ERROR_MESSAGES } from "../constants";
+import {
+  createAppError,
+  diagnoseWebcamError,
+  ERROR_CODES,
+} from "../utils/errorHandling";
+import type { AppError } from "../utils/errorHandling";
 
 interface UseWebcamOptions {
-  videoConstraints?: MediaTrackConstraints;
-  onUserMedia?: (stream: MediaStream) => void;
-  onError?: (error: Error) => void;
+  videoConstraints: MediaTrackConstraints;
+  onStreamStart?: (stream: MediaStream, video: HTMLVideoElement) => void;
+  onError?: (error: AppError) => void;
 }
 
 interface UseWebcamReturn {
-  webcamRef: React.RefObject<Webcam | null>;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  stream: MediaStream | null;
   isWebcamReady: boolean;
-  error: Error | null;
-  captureScreenshot: () => string | null;
-  switchCamera: () => void;
-  currentFacingMode: "user" | "environment";
+  error: AppError | null;
+  trackSettings: MediaTrackSettings | null; // What the camera delivered
+  capabilities: MediaTrackCapabilities | null; // Null where unsupported
+  restart: () => void;
 }
 
+const stopStream = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach((track) => track.stop());
+};
+
+/**
+ * Opens the camera into the returned video ref and keeps it open. Changing
+ * the constraints stops the old tracks before the new camera is requested,
+ * and a camera that is unplugged is reopened with the same constraints.
+ */
 export function useWebcam({
-  videoConstraints = {
-    width: { ideal: 1280 },
-    height: { ideal: 720 },
-    facingMode: "user",
-  },
-  onUserMedia,
+  videoConstraints,
+  onStreamStart,
   onError,
-}: UseWebcamOptions = {}): UseWebcamReturn {
-  const webcamRef = useRef<Webcam>(null);
+}: UseWebcamOptions): UseWebcamReturn {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
   const [isWebcamReady, setIsWebcamReady] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [facingMode, setFacingMode] = useState<"user" | "environment">("user");
-  const streamRef = useRef<MediaStream | null>(null);
-
-  // Handle successful webcam initialization
-  const handleUserMedia = useCallback(
-    (stream: MediaStream) => {
-      console.log("Webcam stream received:", stream);
-      streamRef.current = stream;
-      setIsWebcamReady(true);
-      setError(null);
-      if (onUserMedia) onUserMedia(stream);
-    },
-    [onUserMedia]
+  const [error, setError] = useState<AppError | null>(null);
+  const [trackSettings, setTrackSettings] = useState<MediaTrackSettings | null>(
+    null
   );
+  const [capabilities, setCapabilities] =
+    useState<MediaTrackCapabilities | null>(null);
+  // Bumped to request the stream again
+  const [restartKey, setRestartKey] = useState(0);
 
-  // Handle webcam errors
-  const handleWebcamError = useCallback(
-    (error: string | DOMException) => {
-      console.error("Webcam error:", error);
-
-      let webcamError: Error;
-      if (typeof error === "string") {
-        webcamError = new Error(error);
-      } else if (error instanceof DOMException) {
-        if (error.name === "NotAllowedError") {
-          webcamError = new Error(
-            "Camera access denied. Please allow camera access and reload the page."
-          );
-        } else if (error.name === "NotFoundError") {
-          webcamError = new Error(
-            "No camera found. Please connect a camera and try again."
-          );
-        } else if (error.name === "NotReadableError") {
-          webcamError = new Error(
-            "Camera is already in use by another application."
-          );
-        } else {
-          webcamError = new Error(`Camera error: ${error.message}`);
-        }
-      } else {
-        webcamError = new Error(ERROR_MESSAGES.WEBCAM_ACCESS);
-      }
+  // Callbacks change identity every render, the stream shouldn't
+  const onStreamStartRef = useRef(onStreamStart);
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onStreamStartRef.current = onStreamStart;
+    onErrorRef.current = onError;
+  }, [onStreamStart, onError]);
 
-      setError(webcamError);
-      setIsWebcamReady(false);
-      if (onError) onError(webcamError);
-    },
-    [onError]
-  );
+  // Compared by value so a new object with the same settings is a no-op
+  const constraintsKey = JSON.stringify(videoConstraints);
 
-  // Function to capture a screenshot from the webcam
-  const captureScreenshot = useCallback((): string | null => {
-    if (webcamRef.current && isWebcamReady) {
-      try {
-        return webcamRef.current.getScreenshot();
-      } catch (error) {
-        console.error("Screenshot error:", error);
-        return null;
-      }
-    }
-    return null;
-  }, [isWebcamReady]);
-
-  // Function to switch between front and back cameras
-  const switchCamera = useCallback(() => {
-    console.log("Switching camera from", facingMode);
-    setFacingMode((prevMode) => {
-      const newMode = prevMode === "user" ? "environment" : "user";
-      console.log("New camera mode:", newMode);
-      return newMode;
-    });
-  }, [facingMode]);
-
-  // Clean up stream when component unmounts
   useEffect(() => {
-    return () => {
-      if (streamRef.current) {
-        console.log("Cleaning up webcam stream");
-        streamRef.current.getTracks().forEach((track) => {
-          track.stop();
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      const browserError = createAppError(ERROR_MESSAGES.BROWSER_SUPPORT, {
+        code: ERROR_CODES.BROWSER_UNSUPPORTED,
+        isFatal: true,
+      });
+      setError(browserError);
+      onErrorRef.current?.(browserError);
+      return;
+    }
+
+    let isCancelled = false;
+    let activeStream: MediaStream | null = null;
+    setIsWebcamReady(false);
+
+    const handleEnded = () => {
+      console.log("🔌 Camera disconnected, reopening");
+      setRestartKey((prev) => prev + 1);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: JSON.parse(constraintsKey) as MediaTrackConstraints,
+        audio: false,
+      })
+      .then((mediaStream) => {
+        if (isCancelled) {
+          stopStream(mediaStream);
+          return;
+        }
+        activeStream = mediaStream;
+        console.log("✅ Webcam stream received successfully");
+
+        const [track] = mediaStream.getVideoTracks();
+        // Fires when the camera goes away, not when we stop the track
+        track?.addEventListener("ended", handleEnded);
+
+        video.srcObject = mediaStream;
+        video.onloadeddata = () => {
+          if (isCancelled) return;
+          setStream(mediaStream);
+          setTrackSettings(track?.getSettings() ?? null);
+          setCapabilities(track?.getCapabilities?.() ?? null);
+          setError(null);
+          setIsWebcamReady(true);
+          onStreamStartRef.current?.(mediaStream, video);
+        };
+        video.play().catch(() => {
+          // Autoplay of a muted inline video is allowed; a rejection here
+          // only means a newer stream replaced this one
         });
-        streamRef.current = null;
+      })
+      .catch((cause) => {
+        if (isCancelled) return;
+        console.error("❌ Webcam error:", cause);
+        const webcamError = diagnoseWebcamError(
+          cause instanceof Error ? cause : new Error(String(cause))
+        );
+        setError(webcamError);
+        onErrorRef.current?.(webcamError);
+      });
+
+    return () => {
+      isCancelled = true;
+      video.onloadeddata = null;
+      activeStream
+        ?.getVideoTracks()
+        .forEach((track) => track.removeEventListener("ended", handleEnded));
+      stopStream(activeStream);
+      if (video.srcObject === activeStream) {
+        video.srcObject = null;
       }
+      setStream(null);
     };
-  }, []);
+  }, [constraintsKey, restartKey]);
 
-  // Update video constraints when facingMode changes
-  const currentVideoConstraints = {
-    ...videoConstraints,
-    facingMode,
-  };
-
-  // Check browser support
-  useEffect(() => {
-    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-      const browserError = new Error(ERROR_MESSAGES.BROWSER_SUPPORT);
-      setError(browserError);
-      if (onError) onError(browserError);
-    }
-  }, [onError]);
+  const restart = useCallback(() => {
+    setError(null);
+    setRestartKey((prev) => prev + 1);
+  }, []);
 
   return {
-    webcamRef,
+    videoRef,
+    stream,
     isWebcamReady,
     error,
-    captureScreenshot,
-    switchCamera,
-    currentFacingMode: facingMode,
-    videoConstraints: currentVideoConstraints,
-    onUserMedia: handleUserMedia,
-    onUserMediaError: handleWebcamError,
+    trackSettings,
+    capabilities,
+    restart,
   };
 }
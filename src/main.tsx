@@ -1,8 +1,11 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./components/App";
+import { registerBuiltInFilters } from "./filters/builtInFilters";
 import "./index.css";
 
+registerBuiltInFilters();
+
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <App />
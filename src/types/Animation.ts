@@ -0,0 +1,40 @@
+export type AnimationFormat = "gif" | "apng";
+
+// What the shutter button captures
+export type CaptureMode = "photo" | "animation";
+
+export interface AnimationSettings {
+  format: AnimationFormat;
+  frameCount: number;
+  frameRate: number; // frames per second
+  width: number; // Output width in pixels, height follows the video
+}
+
+// idle - nothing running
+// capturing - grabbing composited frames from the live video
+// encoding - frames handed to the encoder worker
+export type AnimationCapturePhase = "idle" | "capturing" | "encoding";
+
+export interface AnimationCapture {
+  blob: Blob;
+  format: AnimationFormat;
+  width: number;
+  height: number;
+  frameCount: number;
+  frameRate: number;
+}
+
+export type AnimationEncoderRequest = {
+  type: "encode";
+  id: number;
+  format: AnimationFormat;
+  width: number;
+  height: number;
+  delay: number; // ms per frame
+  frames: ArrayBuffer[]; // RGBA pixels, transferred
+};
+
+export type AnimationEncoderResponse =
+  | { type: "progress"; id: number; progress: number }
+  | { type: "done"; id: number; data: ArrayBuffer }
+  | { type: "error"; id: number; message: string };
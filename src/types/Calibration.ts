@@ -0,0 +1,21 @@
+import type { FilterAdjustment } from "./Filter";
+
+// Everything the calibration panel controls, kept between visits
+export interface CalibrationSettings {
+  positionAdjustments: Record<string, FilterAdjustment>; // By filter id
+  isVideoMirrored: boolean;
+}
+
+// The exported calibration JSON
+export interface CalibrationFile extends CalibrationSettings {
+  version: number;
+  timestamp: string; // ISO date of the export
+}
+
+// Named calibration, e.g. one per person or per machine
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  calibration: CalibrationSettings;
+  cameraDeviceId: string | null; // Camera picked with it, null for the default
+}
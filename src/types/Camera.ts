@@ -0,0 +1,8 @@
+export type CameraResolution = "480p" | "720p" | "1080p" | "2160p";
+
+// Which webcam to open and how, remembered between visits
+export interface CameraSettings {
+  deviceId: string | null; // null for the browser's default camera
+  resolution: CameraResolution;
+  frameRate: number;
+}
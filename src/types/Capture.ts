@@ -0,0 +1,46 @@
+import type { FaceDetectionWithLandmarks } from "./FaceDetection";
+
+// Self-timer and burst settings for the shutter button
+export interface CaptureTimerSettings {
+  delay: number; // Seconds before the first shot, 0 for none
+  burstCount: number; // Photos per press, 1 for a single shot
+}
+
+export interface BurstProgress {
+  taken: number;
+  total: number;
+}
+
+export type PhotoFormat = "jpeg" | "png" | "webp";
+
+export type WatermarkPosition =
+  "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+// Logo or text stamped on top of photos
+export interface WatermarkSettings {
+  enabled: boolean;
+  text: string; // Drawn when there is no logo
+  logo: string | null; // PNG data URL
+  position: WatermarkPosition;
+  opacity: number; // 0-1
+  size: number; // Fraction of the photo width
+}
+
+export interface PhotoSettings {
+  format: PhotoFormat;
+  resolution: number; // Output height in pixels, 0 for the camera's own
+  filterLayerOnly: boolean; // PNG of the filters alone on transparency
+  watermark: WatermarkSettings;
+}
+
+// Draws the filter overlay at an exact size rather than scaling the
+// on-screen canvas
+export interface OverlayRenderer {
+  renderAt: (width: number, height: number) => HTMLCanvasElement | null;
+  // Poses the filters for the given faces first, for frame-by-frame renders
+  renderDetections: (
+    detections: FaceDetectionWithLandmarks[] | null,
+    width: number,
+    height: number
+  ) => HTMLCanvasElement | null;
+}
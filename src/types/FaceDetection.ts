@@ -21,3 +21,40 @@ export interface FaceDetectionResult {
     | null;
   expressions: faceapi.FaceExpressions | null;
 }
+
+export type FaceDetectionWithLandmarks = faceapi.WithFaceLandmarks<
+  { detection: faceapi.FaceDetection },
+  faceapi.FaceLandmarks68
+>;
+
+export type DetectionBackend = "worker" | "main";
+
+/**
+ * Plain, serialisable description of one detected face in image pixels
+ */
+export interface FaceSnapshot {
+  score: number;
+  box: { x: number; y: number; width: number; height: number };
+  points: { x: number; y: number }[];
+  imageWidth: number;
+  imageHeight: number;
+}
+
+export interface SerializedFace extends FaceSnapshot {
+  expressions: number[]; // In faceapi.FACE_EXPRESSION_LABELS order
+}
+
+export type DetectionWorkerRequest =
+  | { type: "init"; modelUrl: string }
+  | {
+      type: "detect";
+      id: number;
+      frame: ImageBitmap;
+      inputSize: number;
+      scoreThreshold: number;
+    };
+
+export type DetectionWorkerResponse =
+  | { type: "ready" }
+  | { type: "error"; id?: number; message: string }
+  | { type: "result"; id: number; faces: SerializedFace[] };
@@ -1,3 +1,5 @@
+import type { Group } from "three";
+
 export interface FilterPosition {
   x: number;
   y: number;
@@ -16,13 +18,62 @@ export interface Filter3DPosition {
   rotationZ?: number;
 }
 
+/**
+ * Face measurements the 3D overlay hands to filter placement functions.
+ * Positions are in scene units (x and y in -1..1 across the video), the
+ * landmark points in video pixels.
+ */
+export interface FaceAnchor {
+  center: { x: number; y: number; z: number }; // Nose tip
+  scale: number; // Base filter scale for this face
+  rotation: { x: number; y: number; z: number }; // Head pitch, yaw, roll
+  landmarks: {
+    leftEye: { x: number; y: number };
+    rightEye: { x: number; y: number };
+    noseTip: { x: number; y: number };
+    noseTop: { x: number; y: number };
+    chin: { x: number; y: number };
+    forehead: { x: number; y: number };
+    leftJaw: { x: number; y: number };
+    rightJaw: { x: number; y: number };
+    faceWidth: number;
+    faceHeight: number;
+    jawWidth: number;
+  };
+  points: { x: number; y: number }[]; // All 68 landmarks
+  videoWidth: number;
+  videoHeight: number;
+}
+
 export interface Filter {
   id: string;
   name: string;
-  image: string; // Keep for backwards compatibility and thumbnails
+  image: string; // Thumbnail, also drawn by the 2D renderer
   category: "face" | "eyes" | "mouth" | "head";
   type: "2d" | "3d"; // New field to specify filter type
   position: (landmarks: any, detection: any) => FilterPosition;
-  position3D?: (landmarks: any, detection: any) => Filter3DPosition; // Optional 3D positioning
-  modelType?: "glasses" | "hat" | "beard" | "mustache"; // For 3D model selection
+  position3D?: (face: FaceAnchor) => Filter3DPosition; // Face center if unset
+  createModel?: () => Group; // Procedural 3D model, and fallback for `model`
+  model?: FilterModelAsset; // Optional glTF asset
+  defaultAdjustment?: Partial<FilterAdjustment>; // Starting calibration
+}
+
+export interface FilterModelAsset {
+  url: string; // .glb or .gltf, served from the public folder
+  scale?: number; // Uniform scale into filter units
+  position?: [number, number, number]; // Offset from the filter anchor
+  rotation?: [number, number, number]; // Euler angles in radians
+}
+
+// "fallback" means the asset failed and the procedural model is shown
+export type ModelLoadStatus = "loading" | "loaded" | "fallback";
+
+export interface FilterAdjustment {
+  x: number;
+  y: number;
+  z: number;
+  scale: number;
+  rotX: number;
+  rotY: number;
+  rotZ: number;
 }
@@ -0,0 +1,42 @@
+import type { Filter, FilterAdjustment } from "./Filter";
+
+// Landmark distance that filter sizes and offsets are measured in
+export type ScaleReference = "interOcular" | "faceWidth" | "faceHeight";
+
+export interface ProceduralModelSource {
+  type: "procedural";
+  factory: string; // Id of a registered filter whose model to build
+}
+
+export interface GltfModelSource {
+  type: "gltf";
+  url: string; // Relative to the manifest
+  scale?: number;
+  position?: [number, number, number];
+  rotation?: [number, number, number];
+  fallback?: string; // Procedural factory used if the asset fails
+}
+
+export interface FilterManifestV1 {
+  version: 1;
+  id: string;
+  name: string;
+  category: Filter["category"];
+  thumbnail: string; // Relative to the manifest
+  model: ProceduralModelSource | GltfModelSource;
+  anchor: {
+    landmarks: number[]; // 68-point indices, averaged
+    offset?: { x?: number; y?: number; z?: number }; // Reference lengths, z in scene units
+  };
+  scale: {
+    reference: ScaleReference;
+    factor?: number; // 3D model scale per reference length
+  };
+  sprite?: {
+    width?: number; // 2D width in reference lengths
+    aspectRatio?: number; // 2D height / width
+  };
+  defaultCalibration?: Partial<FilterAdjustment>;
+}
+
+export type FilterManifest = FilterManifestV1;
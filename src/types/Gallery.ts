@@ -0,0 +1,29 @@
+import type { FilterAdjustment } from "./Filter";
+
+export type CaptureKind = "photo" | "animation" | "video";
+
+// Everything about a capture except the media itself, which is stored
+// separately so listing the gallery doesn't load every file
+export interface GalleryItem {
+  id: string;
+  kind: CaptureKind;
+  mimeType: string;
+  filename: string; // Suggested name when downloading
+  size: number; // bytes
+  width: number;
+  height: number;
+  duration?: number; // ms, videos and loops
+  createdAt: number; // ms since epoch
+  thumbnail: Blob; // Small JPEG
+  filterIds: string[];
+  calibration: Record<string, Partial<FilterAdjustment>>;
+}
+
+export interface NewCapture {
+  kind: CaptureKind;
+  blob: Blob;
+  extension: string; // Without the dot
+  duration?: number;
+  filterIds: string[];
+  calibration: Record<string, Partial<FilterAdjustment>>;
+}
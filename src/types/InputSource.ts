@@ -0,0 +1,5 @@
+// Element the filters are drawn over: the camera or an uploaded video
+// plays in a video element, an uploaded photo is an image
+export type FrameSource = HTMLVideoElement | HTMLImageElement;
+
+export type InputSourceKind = "camera" | "video" | "image";
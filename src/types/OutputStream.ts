@@ -0,0 +1,26 @@
+// Filtered video sent to other apps, set apart from the on-screen preview
+export interface OutputStreamSettings {
+  mirrored: boolean;
+  resolution: number; // Output height in pixels, 0 for the source's own
+  frameRate: number;
+}
+
+/**
+ * Scripting access to the output stream for pages embedding the app or
+ * browser extensions, at `window.arFaceFilter.outputStream`
+ */
+export interface OutputStreamApi {
+  start: () => MediaStream | null; // Null until the camera or file is ready
+  stop: () => void;
+  getStream: () => MediaStream | null;
+  // Called with the new stream, or null once it stops. Returns unsubscribe.
+  subscribe: (listener: (stream: MediaStream | null) => void) => () => void;
+}
+
+declare global {
+  interface Window {
+    arFaceFilter?: {
+      outputStream?: OutputStreamApi;
+    };
+  }
+}
@@ -0,0 +1,13 @@
+export type ProjectionMode = "orthographic" | "perspective";
+
+// Where the webcam focal length comes from:
+// resolution - assumed field of view applied to the video size
+// manual - entered by the user, in video pixels
+// estimated - fitted from head pose samples
+export type FocalLengthSource = "resolution" | "manual" | "estimated";
+
+export interface ProjectionSettings {
+  mode: ProjectionMode;
+  focalLengthSource: FocalLengthSource;
+  manualFocalLength: number;
+}
@@ -0,0 +1,22 @@
+export type RecordingStatus = "inactive" | "recording" | "paused";
+
+export type RecordingFormat = "webm" | "mp4";
+
+export interface Recording {
+  blob: Blob;
+  format: RecordingFormat;
+  mimeType: string;
+  duration: number; // ms, not counting pauses
+}
+
+export type OfflineRenderPhase = "idle" | "rendering" | "finishing";
+
+// An uploaded video rendered frame by frame with the filters applied
+export interface OfflineRender {
+  blob: Blob;
+  width: number;
+  height: number;
+  frameCount: number;
+  frameRate: number;
+  duration: number; // ms
+}
@@ -250,6 +250,64 @@ export class FilterModels {
     return mustacheGroup;
   }
 
+  /**
+   * Create an invisible head that only writes depth, so filter parts behind
+   * the head (hat brim, glasses temples) are hidden. Built in millimetres
+   * around the nose tip, matching the canonical face model used for pose.
+   */
+  static createHeadOccluder(): THREE.Group {
+    const occluderGroup = new THREE.Group();
+
+    // Ellipsoid set back from the nose so the face features stay in front
+    const headGeometry = new THREE.SphereGeometry(1, 24, 16);
+    headGeometry.scale(72, 100, 80);
+    headGeometry.translate(0, 20, -105);
+
+    // Rendered first, writing depth but no colour
+    const occluderMaterial = new THREE.MeshBasicMaterial({
+      colorWrite: false,
+    });
+    const occluder = new THREE.Mesh(headGeometry, occluderMaterial);
+    occluder.name = "occluder";
+    occluder.renderOrder = -1;
+
+    // Debug view of the occluder shape
+    const wireframeMaterial = new THREE.MeshBasicMaterial({
+      color: 0x00ff00,
+      wireframe: true,
+      transparent: true,
+      opacity: 0.4,
+    });
+    const wireframe = new THREE.Mesh(headGeometry, wireframeMaterial);
+    wireframe.name = "wireframe";
+    wireframe.visible = false;
+
+    occluderGroup.add(occluder, wireframe);
+
+    return occluderGroup;
+  }
+
+  /**
+   * Release GPU resources held by a model and its children
+   */
+  static dispose(object: THREE.Object3D): void {
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        const materials = Array.isArray(child.material)
+          ? child.material
+          : [child.material];
+        materials.forEach((material) => {
+          // Loaded assets bring their own textures
+          Object.values(material).forEach((value) => {
+            if (value instanceof THREE.Texture) value.dispose();
+          });
+          material.dispose();
+        });
+      }
+    });
+  }
+
   /**
    * Create optimized lighting setup for face filters
    */
@@ -0,0 +1,114 @@
+import type {
+  AnimationEncoderRequest,
+  AnimationEncoderResponse,
+  AnimationFormat,
+} from "../types/Animation";
+
+const MIME_TYPES: Record<AnimationFormat, string> = {
+  gif: "image/gif",
+  apng: "image/apng",
+};
+
+interface PendingEncode {
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+  format: AnimationFormat;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Encodes captured frames into an animated GIF or APNG inside a Web Worker,
+ * so the live preview keeps running while a loop is encoded. The worker
+ * starts on the first encode and stays up for the next one.
+ */
+export class AnimationEncoder {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingEncode>();
+
+  /**
+   * Encodes RGBA frames. The frame buffers are transferred to the worker
+   * and can't be used afterwards.
+   * @param delay Milliseconds per frame
+   */
+  encode(
+    frames: ArrayBuffer[],
+    options: {
+      format: AnimationFormat;
+      width: number;
+      height: number;
+      delay: number;
+      onProgress?: (progress: number) => void;
+    }
+  ): Promise<Blob> {
+    const { format, width, height, delay, onProgress } = options;
+    const worker = this.worker ?? this.start();
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, format, onProgress });
+      const message: AnimationEncoderRequest = {
+        type: "encode",
+        id,
+        format,
+        width,
+        height,
+        delay,
+        frames,
+      };
+      worker.postMessage(message, frames);
+    });
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectAll(new Error("Animation encoder terminated"));
+  }
+
+  private start() {
+    const worker = new Worker(
+      new URL("../workers/animationEncoder.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    this.worker = worker;
+
+    worker.onmessage = (event: MessageEvent<AnimationEncoderResponse>) => {
+      const message = event.data;
+      const request = this.pending.get(message.id);
+      if (!request) return;
+
+      switch (message.type) {
+        case "progress":
+          request.onProgress?.(message.progress);
+          break;
+
+        case "done":
+          this.pending.delete(message.id);
+          request.resolve(
+            new Blob([message.data], { type: MIME_TYPES[request.format] })
+          );
+          break;
+
+        case "error":
+          this.pending.delete(message.id);
+          request.reject(new Error(message.message));
+          break;
+      }
+    };
+
+    // Start a fresh worker for the next encode
+    worker.onerror = (event) => {
+      worker.terminate();
+      this.worker = null;
+      this.rejectAll(new Error(event.message || "Animation encoder failed"));
+    };
+
+    return worker;
+  }
+
+  private rejectAll(error: Error) {
+    this.pending.forEach((request) => request.reject(error));
+    this.pending.clear();
+  }
+}
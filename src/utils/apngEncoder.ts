@@ -0,0 +1,112 @@
+import { ByteWriter } from "./byteWriter";
+import { crc32 } from "./crc32";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Whether this environment can compress PNG image data
+ */
+export const isApngSupported = () => typeof CompressionStream !== "undefined";
+
+// zlib stream, which is what PNG image data is stored as
+const deflate = async (data: Uint8Array) => {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const writeChunk = (writer: ByteWriter, type: string, data: Uint8Array) => {
+  const chunk = new ByteWriter();
+  chunk.ascii(type);
+  chunk.bytes(data);
+  const bytes = chunk.toBytes();
+
+  writer.u32be(data.length);
+  writer.bytes(bytes);
+  writer.u32be(crc32(bytes));
+};
+
+/**
+ * Opaque RGB scanlines with the Sub filter, which suits photographic
+ * frames far better than no filter at all
+ */
+const filterScanlines = (
+  frame: Uint8ClampedArray,
+  width: number,
+  height: number
+) => {
+  const stride = width * 3 + 1;
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    out[row] = 1; // Sub
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const left = x > 0 ? frame[src - 4 + c] : 0;
+        out[row + 1 + x * 3 + c] = (frame[src + c] - left) & 0xff;
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * Encodes RGBA frames as a looping animated PNG. Frames are stored in full
+ * and opaque, the composited video has no transparency worth keeping.
+ * @param delay Milliseconds per frame
+ * @param onProgress Called with 0-1 as frames are encoded
+ */
+export const encodeApng = async (
+  frames: Uint8ClampedArray[],
+  width: number,
+  height: number,
+  delay: number,
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> => {
+  const writer = new ByteWriter();
+  writer.bytes(PNG_SIGNATURE);
+
+  const header = new ByteWriter();
+  header.u32be(width);
+  header.u32be(height);
+  header.bytes([8, 2, 0, 0, 0]); // 8-bit RGB, deflate, adaptive, no interlace
+  writeChunk(writer, "IHDR", header.toBytes());
+
+  const animation = new ByteWriter();
+  animation.u32be(frames.length);
+  animation.u32be(0); // Loop forever
+  writeChunk(writer, "acTL", animation.toBytes());
+
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    const control = new ByteWriter();
+    control.u32be(sequence++);
+    control.u32be(width);
+    control.u32be(height);
+    control.u32be(0); // x offset
+    control.u32be(0); // y offset
+    // Delay as a fraction, in milliseconds
+    control.u16be(Math.round(delay));
+    control.u16be(1000);
+    control.bytes([0, 0]); // No disposal, replace the previous frame
+    writeChunk(writer, "fcTL", control.toBytes());
+
+    const data = await deflate(filterScanlines(frames[i], width, height));
+    if (i === 0) {
+      // The first frame doubles as the still image for plain PNG viewers
+      writeChunk(writer, "IDAT", data);
+    } else {
+      const frameData = new ByteWriter();
+      frameData.u32be(sequence++);
+      frameData.bytes(data);
+      writeChunk(writer, "fdAT", frameData.toBytes());
+    }
+
+    onProgress?.((i + 1) / frames.length);
+  }
+
+  writeChunk(writer, "IEND", new Uint8Array(0));
+  return writer.toBytes();
+};
@@ -54,6 +54,18 @@ export const checkBrowserCompatibility = (): {
   };
 };
 
+/**
+ * Checks if face detection can run in a Web Worker
+ * @returns True when workers, OffscreenCanvas and ImageBitmap are available
+ */
+export const supportsWorkerDetection = (): boolean => {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap === "function"
+  );
+};
+
 /**
  * Gets the most suitable camera for face detection
  * @returns Promise resolving to the optimal facing mode
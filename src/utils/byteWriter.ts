@@ -0,0 +1,60 @@
+/**
+ * Growable byte buffer for building binary files
+ */
+export class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+
+  private reserve(size: number) {
+    if (this.length + size <= this.buffer.length) return;
+
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+
+  byte(value: number) {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  bytes(values: ArrayLike<number>) {
+    this.reserve(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  u16le(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  u32le(value: number) {
+    this.u16le(value & 0xffff);
+    this.u16le((value >>> 16) & 0xffff);
+  }
+
+  u16be(value: number) {
+    this.byte((value >> 8) & 0xff);
+    this.byte(value & 0xff);
+  }
+
+  u32be(value: number) {
+    this.byte((value >>> 24) & 0xff);
+    this.byte((value >>> 16) & 0xff);
+    this.byte((value >>> 8) & 0xff);
+    this.byte(value & 0xff);
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      this.byte(text.charCodeAt(i));
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
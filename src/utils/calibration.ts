@@ -0,0 +1,177 @@
+import type { FilterAdjustment } from "../types/Filter";
+import type {
+  CalibrationFile,
+  CalibrationSettings,
+} from "../types/Calibration";
+import {
+  getDefaultAdjustment,
+  getFilter,
+  NEUTRAL_ADJUSTMENT,
+} from "./filterRegistry";
+import { createAppError, ERROR_CODES } from "./errorHandling";
+
+// Version 1 files predate the version field, and may leave out values
+export const CALIBRATION_VERSION = 2;
+
+const ADJUSTMENT_KEYS = Object.keys(
+  NEUTRAL_ADJUSTMENT
+) as (keyof FilterAdjustment)[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// Filters that aren't registered (yet) fall back to no adjustment
+const getStartingAdjustment = (filterId: string) => {
+  const filter = getFilter(filterId);
+  return filter ? getDefaultAdjustment(filter) : NEUTRAL_ADJUSTMENT;
+};
+
+// Only the known values, so stray fields aren't carried along
+const pickAdjustment = ({
+  x,
+  y,
+  z,
+  scale,
+  rotX,
+  rotY,
+  rotZ,
+}: FilterAdjustment): FilterAdjustment => ({
+  x,
+  y,
+  z,
+  scale,
+  rotX,
+  rotY,
+  rotZ,
+});
+
+/**
+ * Brings an older calibration file up to the current version. Anything
+ * that isn't recognisably calibration is passed through for validation to
+ * reject.
+ */
+export const migrateCalibration = (data: unknown): unknown => {
+  if (!isRecord(data) || data.version !== undefined) return data;
+
+  // Version 1: no version, adjustments of whatever the sliders had touched
+  const adjustments = isRecord(data.positionAdjustments)
+    ? data.positionAdjustments
+    : {};
+  return {
+    ...data,
+    version: 2,
+    positionAdjustments: Object.fromEntries(
+      Object.entries(adjustments).map(([filterId, adjustment]) => [
+        filterId,
+        isRecord(adjustment)
+          ? { ...getStartingAdjustment(filterId), ...adjustment }
+          : adjustment,
+      ])
+    ),
+    isVideoMirrored: data.isVideoMirrored ?? true,
+  };
+};
+
+/**
+ * Checks migrated calibration against the current format
+ * @returns Human readable problems, empty when the calibration is valid
+ */
+export const validateCalibration = (data: unknown): string[] => {
+  if (!isRecord(data)) return ["Calibration must be a JSON object"];
+
+  if (data.version !== CALIBRATION_VERSION) {
+    return [
+      isNumber(data.version)
+        ? `Unsupported calibration version ${data.version}, expected ${CALIBRATION_VERSION} or older`
+        : "Calibration version must be a number",
+    ];
+  }
+
+  const errors: string[] = [];
+  if (typeof data.isVideoMirrored !== "boolean") {
+    errors.push("isVideoMirrored must be true or false");
+  }
+
+  if (!isRecord(data.positionAdjustments)) {
+    errors.push("positionAdjustments must be an object of filter ids");
+    return errors;
+  }
+  Object.entries(data.positionAdjustments).forEach(([filterId, adjustment]) => {
+    if (!isRecord(adjustment)) {
+      errors.push(`${filterId} must be an object of adjustments`);
+      return;
+    }
+    ADJUSTMENT_KEYS.forEach((key) => {
+      if (!isNumber(adjustment[key])) {
+        errors.push(`${filterId}.${key} must be a number`);
+      }
+    });
+    if (isNumber(adjustment.scale) && adjustment.scale <= 0) {
+      errors.push(`${filterId}.scale must be positive`);
+    }
+  });
+  return errors;
+};
+
+/**
+ * Migrates and validates parsed JSON into calibration settings
+ * @param source Where the calibration came from, for error messages
+ */
+export const parseCalibration = (
+  data: unknown,
+  source: string
+): CalibrationSettings => {
+  const migrated = migrateCalibration(data);
+  const errors = validateCalibration(migrated);
+  if (errors.length > 0) {
+    throw createAppError(`Invalid calibration ${source}: ${errors[0]}`, {
+      code: ERROR_CODES.CALIBRATION_INVALID,
+      context: { source, errors },
+    });
+  }
+
+  const { positionAdjustments, isVideoMirrored } =
+    migrated as CalibrationSettings;
+  return {
+    positionAdjustments: Object.fromEntries(
+      Object.entries(positionAdjustments).map(([filterId, adjustment]) => [
+        filterId,
+        pickAdjustment(adjustment),
+      ])
+    ),
+    isVideoMirrored,
+  };
+};
+
+/**
+ * Reads a calibration file the user picked
+ */
+export const readCalibrationFile = async (
+  file: File
+): Promise<CalibrationSettings> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (error) {
+    throw createAppError(`${file.name} is not valid JSON`, {
+      code: ERROR_CODES.CALIBRATION_INVALID,
+      context: { source: file.name },
+      originalError: error instanceof Error ? error : undefined,
+    });
+  }
+  return parseCalibration(data, file.name);
+};
+
+/**
+ * Calibration in the current file format, for export and storage
+ */
+export const createCalibrationFile = (
+  settings: CalibrationSettings
+): CalibrationFile => ({
+  version: CALIBRATION_VERSION,
+  ...settings,
+  timestamp: new Date().toISOString(),
+});
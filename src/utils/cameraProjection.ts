@@ -0,0 +1,83 @@
+import { estimateHeadPose } from "./poseEstimation";
+import { PROJECTION_OPTIONS } from "../constants";
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Focal length in pixels for a field of view across an image dimension
+ */
+export const focalLengthFromFov = (fovDegrees: number, size: number) =>
+  size / 2 / Math.tan(toRadians(fovDegrees) / 2);
+
+/**
+ * Field of view in degrees across an image dimension
+ */
+export const fovFromFocalLength = (focalLength: number, size: number) =>
+  toDegrees(2 * Math.atan(size / 2 / focalLength));
+
+/**
+ * Focal length in use: an explicit value, or the default field of view
+ * applied to the video width
+ */
+export const resolveFocalLength = (
+  focalLength: number | undefined,
+  videoWidth: number
+) =>
+  focalLength ??
+  focalLengthFromFov(PROJECTION_OPTIONS.defaultHorizontalFov, videoWidth);
+
+/**
+ * Finds the focal length under which the canonical head model best explains
+ * a set of landmark samples. A golden-section search over the horizontal
+ * field of view, scoring each candidate by the mean PnP reprojection error.
+ * Samples with varied head poses constrain the result much better than a
+ * face held still in front of the camera.
+ * @param samples 68-point landmark sets in video pixels
+ * @returns Focal length in video pixels
+ */
+export const estimateFocalLength = (
+  samples: { x: number; y: number }[][],
+  videoWidth: number,
+  videoHeight: number,
+  fovRange: { min: number; max: number }
+): number => {
+  const meanError = (fov: number) => {
+    const camera = {
+      focalLength: focalLengthFromFov(fov, videoWidth),
+      centerX: videoWidth / 2,
+      centerY: videoHeight / 2,
+    };
+    const total = samples.reduce(
+      (sum, landmarks) => sum + estimateHeadPose(landmarks, camera).error,
+      0
+    );
+    return total / samples.length;
+  };
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = fovRange.min;
+  let high = fovRange.max;
+  let a = high - ratio * (high - low);
+  let b = low + ratio * (high - low);
+  let errorA = meanError(a);
+  let errorB = meanError(b);
+
+  while (high - low > 0.5) {
+    if (errorA < errorB) {
+      high = b;
+      b = a;
+      errorB = errorA;
+      a = high - ratio * (high - low);
+      errorA = meanError(a);
+    } else {
+      low = a;
+      a = b;
+      errorA = errorB;
+      b = low + ratio * (high - low);
+      errorB = meanError(b);
+    }
+  }
+
+  return focalLengthFromFov((low + high) / 2, videoWidth);
+};
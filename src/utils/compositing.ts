@@ -0,0 +1,42 @@
+import type { FrameSource } from "../types/InputSource";
+
+/**
+ * Whether an element is displayed flipped, the way WebcamView mirrors the feed
+ */
+export const isElementMirrored = (element: HTMLElement) =>
+  element.style.transform.includes("scaleX(-1)");
+
+/**
+ * Draws the current video frame with the filter overlay on top, filling the
+ * context's canvas. Overlays are drawn in unmirrored video space, so both
+ * layers are flipped together when the video is shown mirrored, or when
+ * `mirrored` asks for it regardless of the preview. Without the video only
+ * the overlay is drawn, leaving the rest transparent.
+ */
+export const drawCompositeFrame = (
+  ctx: CanvasRenderingContext2D,
+  video: FrameSource,
+  overlay?: HTMLCanvasElement | null,
+  {
+    includeVideo = true,
+    mirrored = isElementMirrored(video),
+  }: { includeVideo?: boolean; mirrored?: boolean } = {}
+) => {
+  const { width, height } = ctx.canvas;
+
+  ctx.save();
+  if (mirrored) {
+    ctx.scale(-1, 1);
+    ctx.translate(-width, 0);
+  }
+
+  if (includeVideo) {
+    ctx.drawImage(video, 0, 0, width, height);
+  }
+
+  // Scale overlay to match canvas dimensions
+  if (overlay && overlay.width > 0 && overlay.height > 0) {
+    ctx.drawImage(overlay, 0, 0, width, height);
+  }
+  ctx.restore();
+};
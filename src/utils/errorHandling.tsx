@@ -31,6 +31,8 @@ export const createAppError = (
 export const ERROR_CODES = {
   WEBCAM_ACCESS_DENIED: "WEBCAM_ACCESS_DENIED",
   WEBCAM_DEVICE_NOT_FOUND: "WEBCAM_DEVICE_NOT_FOUND",
+  WEBCAM_IN_USE: "WEBCAM_IN_USE",
+  WEBCAM_CONSTRAINTS: "WEBCAM_CONSTRAINTS",
   WEBCAM_GENERIC: "WEBCAM_GENERIC",
   MODEL_LOAD_FAILED: "MODEL_LOAD_FAILED",
   MODEL_NETWORK_ERROR: "MODEL_NETWORK_ERROR",
@@ -38,7 +40,10 @@ export const ERROR_CODES = {
   BROWSER_UNSUPPORTED: "BROWSER_UNSUPPORTED",
   DETECTION_FAILED: "DETECTION_FAILED",
   SCREENSHOT_FAILED: "SCREENSHOT_FAILED",
+  RECORDING_FAILED: "RECORDING_FAILED",
+  STORAGE_FAILED: "STORAGE_FAILED",
   FILTER_LOAD_FAILED: "FILTER_LOAD_FAILED",
+  CALIBRATION_INVALID: "CALIBRATION_INVALID",
   PERFORMANCE_ISSUE: "PERFORMANCE_ISSUE",
 };
 
@@ -69,10 +74,14 @@ export const getRecoveryAction = (
 
 // Error diagnostics
 export const diagnoseWebcamError = (error: Error): AppError => {
-  // Convert DOMException and other browser errors to our AppError format
+  // getUserMedia rejects with DOMExceptions named after the failure, older
+  // browsers only describe it in the message
+  const name = error.name;
   const message = error.message.toLowerCase();
 
   if (
+    name === "NotAllowedError" ||
+    name === "SecurityError" ||
     message.includes("permission denied") ||
     message.includes("not allowed")
   ) {
@@ -86,11 +95,41 @@ export const diagnoseWebcamError = (error: Error): AppError => {
     );
   }
 
-  if (message.includes("device not found") || message.includes("unavailable")) {
-    return createAppError("No camera was found on your device.", {
-      code: ERROR_CODES.WEBCAM_DEVICE_NOT_FOUND,
-      originalError: error,
-    });
+  if (
+    name === "NotFoundError" ||
+    message.includes("device not found") ||
+    message.includes("unavailable")
+  ) {
+    return createAppError(
+      "No camera was found. Please connect a camera and try again.",
+      {
+        code: ERROR_CODES.WEBCAM_DEVICE_NOT_FOUND,
+        originalError: error,
+      }
+    );
+  }
+
+  if (name === "NotReadableError" || name === "AbortError") {
+    return createAppError(
+      "The camera is already in use by another application.",
+      {
+        code: ERROR_CODES.WEBCAM_IN_USE,
+        originalError: error,
+      }
+    );
+  }
+
+  if (name === "OverconstrainedError") {
+    return createAppError(
+      "The camera doesn't support the chosen settings. Try another resolution or frame rate.",
+      {
+        code: ERROR_CODES.WEBCAM_CONSTRAINTS,
+        context: {
+          constraint: (error as Error & { constraint?: string }).constraint,
+        },
+        originalError: error,
+      }
+    );
   }
 
   return createAppError("An error occurred accessing your camera.", {
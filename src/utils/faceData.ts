@@ -0,0 +1,86 @@
+import * as faceapi from "face-api.js";
+import type {
+  FaceDetectionWithLandmarks,
+  FaceSnapshot,
+  SerializedFace,
+} from "../types/FaceDetection";
+
+/**
+ * Flattens a face-api.js detection into plain numbers
+ */
+export const toFaceSnapshot = (
+  detection: FaceDetectionWithLandmarks
+): FaceSnapshot => {
+  const { box, imageDims } = detection.detection;
+  return {
+    score: detection.detection.score,
+    box: { x: box.x, y: box.y, width: box.width, height: box.height },
+    points: detection.landmarks.positions.map((p) => ({ x: p.x, y: p.y })),
+    imageWidth: imageDims.width,
+    imageHeight: imageDims.height,
+  };
+};
+
+/**
+ * Rebuilds a face-api.js detection from absolute pixel data so downstream
+ * consumers can keep using helpers like landmarks.getLeftEye()
+ */
+export const fromFaceSnapshot = ({
+  score,
+  box,
+  points,
+  imageWidth,
+  imageHeight,
+}: FaceSnapshot): FaceDetectionWithLandmarks => {
+  const imageDims = { width: imageWidth, height: imageHeight };
+  const detection = new faceapi.FaceDetection(
+    score,
+    new faceapi.Rect(
+      box.x / imageWidth,
+      box.y / imageHeight,
+      box.width / imageWidth,
+      box.height / imageHeight
+    ),
+    imageDims
+  );
+
+  // Landmarks are stored relative to the face box and shifted back into
+  // image space by extendWithFaceLandmarks
+  const boxWidth = Math.max(box.width, 1);
+  const boxHeight = Math.max(box.height, 1);
+  const unshiftedLandmarks = new faceapi.FaceLandmarks68(
+    points.map(
+      (p) =>
+        new faceapi.Point((p.x - box.x) / boxWidth, (p.y - box.y) / boxHeight)
+    ),
+    { width: boxWidth, height: boxHeight }
+  );
+
+  return faceapi.extendWithFaceLandmarks(
+    faceapi.extendWithFaceDetection({}, detection),
+    unshiftedLandmarks
+  );
+};
+
+/**
+ * Packs a detection with expressions for postMessage
+ */
+export const serializeFace = (
+  detection: faceapi.WithFaceExpressions<FaceDetectionWithLandmarks>
+): SerializedFace => ({
+  ...toFaceSnapshot(detection),
+  expressions: faceapi.FACE_EXPRESSION_LABELS.map(
+    (label) => detection.expressions[label as keyof faceapi.FaceExpressions]
+  ) as number[],
+});
+
+/**
+ * Restores a detection posted back from the detection worker
+ */
+export const deserializeFace = (
+  face: SerializedFace
+): faceapi.WithFaceExpressions<FaceDetectionWithLandmarks> =>
+  faceapi.extendWithFaceExpressions(
+    fromFaceSnapshot(face),
+    new faceapi.FaceExpressions(face.expressions)
+  );
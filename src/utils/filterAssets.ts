@@ -0,0 +1,24 @@
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+/**
+ * Loads an image once and shares the decoded element between callers
+ * @param src Image URL
+ */
+export const loadFilterImage = (src: string): Promise<HTMLImageElement> => {
+  const cached = imageCache.get(src);
+  if (cached) return cached;
+
+  const promise = new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.decoding = "async";
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      imageCache.delete(src);
+      reject(new Error(`Failed to load filter image: ${src}`));
+    };
+    image.src = src;
+  });
+
+  imageCache.set(src, promise);
+  return promise;
+};
@@ -0,0 +1,357 @@
+import * as THREE from "three";
+import type { FaceAnchor, Filter } from "../types/Filter";
+import type { FilterManifest, ScaleReference } from "../types/FilterManifest";
+import { getFilter } from "./filterRegistry";
+import { CANONICAL_FACE_POINTS } from "./poseEstimation";
+import { createAppError, ERROR_CODES } from "./errorHandling";
+
+export const FILTER_MANIFEST_VERSION = 1;
+
+const CATEGORIES: Filter["category"][] = ["face", "eyes", "mouth", "head"];
+const ADJUSTMENT_KEYS = ["x", "y", "z", "scale", "rotX", "rotY", "rotZ"];
+
+// Landmark pairs each scale reference is measured between
+const SCALE_REFERENCES: Record<ScaleReference, [number, number]> = {
+  interOcular: [36, 45], // Outer eye corners
+  faceWidth: [0, 16], // Jaw, ear to ear
+  faceHeight: [27, 8], // Nose bridge to chin
+};
+
+// Eye line used for the head tilt
+const [EYE_OUTER_LEFT, EYE_OUTER_RIGHT] = SCALE_REFERENCES.interOcular;
+
+type Point = { x: number; y: number };
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+// Reference length of the canonical head model in millimetres
+const canonicalLength = (reference: ScaleReference) => {
+  const [from, to] = SCALE_REFERENCES[reference].map(
+    (index) => new THREE.Vector3(...CANONICAL_FACE_POINTS[index])
+  );
+  return from.distanceTo(to);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isVector3 = (value: unknown) =>
+  Array.isArray(value) && value.length === 3 && value.every(isNumber);
+
+const isProceduralFactory = (id: unknown) =>
+  typeof id === "string" && !!getFilter(id)?.createModel;
+
+/**
+ * Checks a parsed manifest against the current format
+ * @returns Human readable problems, empty when the manifest is valid
+ */
+export const validateFilterManifest = (data: unknown): string[] => {
+  if (!isRecord(data)) return ["Manifest must be a JSON object"];
+
+  const errors: string[] = [];
+  const check = (condition: boolean, message: string) => {
+    if (!condition) errors.push(message);
+  };
+
+  if (data.version !== FILTER_MANIFEST_VERSION) {
+    return [
+      isNumber(data.version)
+        ? `Unsupported manifest version ${data.version}, expected ${FILTER_MANIFEST_VERSION}`
+        : "Missing manifest version",
+    ];
+  }
+
+  check(
+    typeof data.id === "string" && /^[a-z0-9_-]+$/i.test(data.id),
+    "id must be letters, numbers, dashes or underscores"
+  );
+  check(
+    typeof data.name === "string" && data.name.length > 0,
+    "name is required"
+  );
+  check(
+    CATEGORIES.includes(data.category as Filter["category"]),
+    `category must be one of ${CATEGORIES.join(", ")}`
+  );
+  check(typeof data.thumbnail === "string", "thumbnail URL is required");
+
+  const model = data.model;
+  if (!isRecord(model)) {
+    errors.push("model is required");
+  } else if (model.type === "procedural") {
+    check(
+      isProceduralFactory(model.factory),
+      `model.factory "${model.factory}" is not a registered procedural model`
+    );
+  } else if (model.type === "gltf") {
+    check(typeof model.url === "string", "model.url is required");
+    check(
+      model.scale === undefined || (isNumber(model.scale) && model.scale > 0),
+      "model.scale must be a positive number"
+    );
+    check(
+      model.position === undefined || isVector3(model.position),
+      "model.position must be [x, y, z]"
+    );
+    check(
+      model.rotation === undefined || isVector3(model.rotation),
+      "model.rotation must be [x, y, z]"
+    );
+    check(
+      model.fallback === undefined || isProceduralFactory(model.fallback),
+      `model.fallback "${model.fallback}" is not a registered procedural model`
+    );
+  } else {
+    errors.push('model.type must be "procedural" or "gltf"');
+  }
+
+  const anchor = data.anchor;
+  if (!isRecord(anchor)) {
+    errors.push("anchor is required");
+  } else {
+    check(
+      Array.isArray(anchor.landmarks) &&
+        anchor.landmarks.length > 0 &&
+        anchor.landmarks.every(
+          (index) => Number.isInteger(index) && index >= 0 && index < 68
+        ),
+      "anchor.landmarks must list landmark indices from 0 to 67"
+    );
+    check(
+      anchor.offset === undefined ||
+        (isRecord(anchor.offset) &&
+          Object.values(anchor.offset).every(isNumber)),
+      "anchor.offset values must be numbers"
+    );
+  }
+
+  const scale = data.scale;
+  if (!isRecord(scale)) {
+    errors.push("scale is required");
+  } else {
+    check(
+      typeof scale.reference === "string" &&
+        scale.reference in SCALE_REFERENCES,
+      `scale.reference must be one of ${Object.keys(SCALE_REFERENCES).join(", ")}`
+    );
+    check(
+      scale.factor === undefined ||
+        (isNumber(scale.factor) && scale.factor > 0),
+      "scale.factor must be a positive number"
+    );
+  }
+
+  if (data.sprite !== undefined) {
+    check(
+      isRecord(data.sprite) &&
+        Object.values(data.sprite).every(
+          (value) => isNumber(value) && value > 0
+        ),
+      "sprite values must be positive numbers"
+    );
+  }
+
+  if (data.defaultCalibration !== undefined) {
+    check(
+      isRecord(data.defaultCalibration) &&
+        Object.entries(data.defaultCalibration).every(
+          ([key, value]) => ADJUSTMENT_KEYS.includes(key) && isNumber(value)
+        ),
+      `defaultCalibration may only set ${ADJUSTMENT_KEYS.join(", ")}`
+    );
+  }
+
+  return errors;
+};
+
+/**
+ * Finds where a manifest attaches to a face, in video pixels
+ * @param referenceLength Pixel length of the scale reference
+ */
+const placeAnchor = (
+  manifest: FilterManifest,
+  points: Point[],
+  referenceLength: number
+) => {
+  const { landmarks, offset = {} } = manifest.anchor;
+  const anchor = landmarks.reduce(
+    (sum, index) => ({
+      x: sum.x + points[index].x / landmarks.length,
+      y: sum.y + points[index].y / landmarks.length,
+    }),
+    { x: 0, y: 0 }
+  );
+
+  // Offsets follow the head tilt, with y pointing up
+  const angle = Math.atan2(
+    points[EYE_OUTER_RIGHT].y - points[EYE_OUTER_LEFT].y,
+    points[EYE_OUTER_RIGHT].x - points[EYE_OUTER_LEFT].x
+  );
+  const dx = (offset.x ?? 0) * referenceLength;
+  const dy = -(offset.y ?? 0) * referenceLength;
+
+  return {
+    x: anchor.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: anchor.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+    angle,
+  };
+};
+
+/**
+ * Turns a validated manifest into a Filter
+ * @param baseUrl URL relative paths in the manifest resolve against
+ */
+const createFilterFromManifest = (
+  manifest: FilterManifest,
+  baseUrl: string
+): Filter => {
+  const resolve = (url: string) => new URL(url, baseUrl).href;
+  const { reference, factor = 1 } = manifest.scale;
+  const [from, to] = SCALE_REFERENCES[reference];
+  // Reference length relative to the eye distance the 3D base scale uses
+  const referenceRatio =
+    canonicalLength(reference) / canonicalLength("interOcular");
+  const spriteWidth = manifest.sprite?.width ?? 1;
+  const aspectRatio = manifest.sprite?.aspectRatio ?? 1;
+
+  // Resolved now, so a manifest can replace the filter it borrows from
+  const model = manifest.model;
+  const factoryId =
+    model.type === "procedural" ? model.factory : model.fallback;
+  const createModel = factoryId ? getFilter(factoryId)?.createModel : undefined;
+
+  return {
+    id: manifest.id,
+    name: manifest.name,
+    image: resolve(manifest.thumbnail),
+    category: manifest.category,
+    type: "3d",
+    position: (landmarks) => {
+      const points: Point[] = landmarks.positions;
+      const referenceLength = distance(points[from], points[to]);
+      const anchor = placeAnchor(manifest, points, referenceLength);
+      const width = referenceLength * spriteWidth;
+      const height = width * aspectRatio;
+
+      return {
+        x: anchor.x - width / 2,
+        y: anchor.y - height / 2,
+        width,
+        height,
+        angle: anchor.angle,
+      };
+    },
+    position3D: (face: FaceAnchor) => {
+      // Frontal reference length, so offsets don't shrink as the head turns
+      const referenceLength = face.scale * 200 * referenceRatio;
+      const anchor = placeAnchor(manifest, face.points, referenceLength);
+
+      return {
+        x: (anchor.x / face.videoWidth) * 2 - 1,
+        y: -((anchor.y / face.videoHeight) * 2 - 1),
+        z: manifest.anchor.offset?.z ?? 0,
+        scale: face.scale * referenceRatio * factor,
+      };
+    },
+    createModel,
+    model:
+      model.type === "gltf"
+        ? {
+            url: resolve(model.url),
+            scale: model.scale,
+            position: model.position,
+            rotation: model.rotation,
+          }
+        : undefined,
+    defaultAdjustment: manifest.defaultCalibration,
+  };
+};
+
+/**
+ * Validates parsed JSON and builds a Filter from it
+ * @param source Where the manifest came from, for error messages
+ */
+export const parseFilterManifest = (
+  data: unknown,
+  baseUrl: string,
+  source: string
+): Filter => {
+  const errors = validateFilterManifest(data);
+  if (errors.length > 0) {
+    throw createAppError(`Invalid filter manifest ${source}: ${errors[0]}`, {
+      code: ERROR_CODES.FILTER_LOAD_FAILED,
+      context: { source, errors },
+    });
+  }
+  return createFilterFromManifest(data as FilterManifest, baseUrl);
+};
+
+/**
+ * Fetches a manifest from a URL
+ */
+export const loadFilterManifest = async (url: string): Promise<Filter> => {
+  const manifestUrl = new URL(url, window.location.href).href;
+  const response = await fetch(manifestUrl);
+  if (!response.ok) {
+    throw createAppError(`Failed to fetch filter manifest ${url}`, {
+      code: ERROR_CODES.FILTER_LOAD_FAILED,
+      context: { source: url, status: response.status },
+    });
+  }
+  return parseFilterManifest(await response.json(), manifestUrl, url);
+};
+
+/**
+ * Loads every manifest listed in an index file ({ "manifests": [...] }).
+ * One broken manifest doesn't stop the others from loading.
+ */
+export const loadFilterManifestIndex = async (
+  indexUrl: string
+): Promise<{ filters: Filter[]; errors: Error[] }> => {
+  const response = await fetch(indexUrl);
+  if (!response.ok) return { filters: [], errors: [] };
+
+  const index = await response.json();
+  const entries: unknown[] = Array.isArray(index?.manifests)
+    ? index.manifests
+    : [];
+  const baseUrl = new URL(indexUrl, window.location.href).href;
+
+  const results = await Promise.allSettled(
+    entries
+      .filter((entry): entry is string => typeof entry === "string")
+      .map((entry) => loadFilterManifest(new URL(entry, baseUrl).href))
+  );
+
+  const filters: Filter[] = [];
+  const errors: Error[] = [];
+  results.forEach((result) => {
+    if (result.status === "fulfilled") {
+      filters.push(result.value);
+    } else {
+      errors.push(result.reason);
+    }
+  });
+  return { filters, errors };
+};
+
+/**
+ * Reads a manifest the user dropped or picked. Relative URLs inside it
+ * resolve against the page, so bundled assets should use absolute paths.
+ */
+export const readFilterManifestFile = async (file: File): Promise<Filter> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (error) {
+    throw createAppError(`${file.name} is not valid JSON`, {
+      code: ERROR_CODES.FILTER_LOAD_FAILED,
+      context: { source: file.name },
+      originalError: error instanceof Error ? error : undefined,
+    });
+  }
+  return parseFilterManifest(data, window.location.href, file.name);
+};
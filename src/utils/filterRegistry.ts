@@ -0,0 +1,63 @@
+import type { Filter, FilterAdjustment } from "../types/Filter";
+
+const registry = new Map<string, Filter>();
+const listeners = new Set<() => void>();
+let snapshot: Filter[] = [];
+
+const notify = () => {
+  snapshot = Array.from(registry.values());
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Adds a filter to the app. Registering an id again replaces the earlier
+ * definition, so filter packs can override built-in filters.
+ * @returns A function that unregisters the filter
+ */
+export const registerFilter = (filter: Filter): (() => void) => {
+  if (registry.has(filter.id)) {
+    console.warn(`⚠️ Replacing registered filter: ${filter.id}`);
+  }
+  registry.set(filter.id, filter);
+  notify();
+
+  return () => {
+    if (registry.get(filter.id) === filter) {
+      registry.delete(filter.id);
+      notify();
+    }
+  };
+};
+
+export const getFilter = (id: string): Filter | undefined => registry.get(id);
+
+/**
+ * All registered filters in registration order. The array is replaced,
+ * never mutated, whenever the registry changes.
+ */
+export const getRegisteredFilters = (): Filter[] => snapshot;
+
+export const subscribeToFilters = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const NEUTRAL_ADJUSTMENT: FilterAdjustment = {
+  x: 0,
+  y: 0,
+  z: 0,
+  scale: 1,
+  rotX: 0,
+  rotY: 0,
+  rotZ: 0,
+};
+
+/**
+ * Calibration a filter starts from, and returns to on reset
+ */
+export const getDefaultAdjustment = (filter: Filter): FilterAdjustment => ({
+  ...NEUTRAL_ADJUSTMENT,
+  ...filter.defaultAdjustment,
+});
@@ -0,0 +1,56 @@
+import { BACKGROUND_FRAME_INTERVAL } from "../constants";
+
+// Frames waiting for the next animation frame or worker tick
+const waiting = new Set<() => void>();
+let clockWorker: Worker | null = null;
+
+const runWaiting = () => {
+  [...waiting].forEach((run) => run());
+  updateClockWorker();
+};
+
+// The worker only ticks while the tab is hidden and frames are waiting
+const updateClockWorker = () => {
+  const shouldTick = document.hidden && waiting.size > 0;
+  if (shouldTick && !clockWorker) {
+    clockWorker = new Worker(
+      new URL("../workers/frameClock.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    clockWorker.onmessage = runWaiting;
+    clockWorker.postMessage({ interval: BACKGROUND_FRAME_INTERVAL });
+  } else if (!shouldTick && clockWorker) {
+    clockWorker.terminate();
+    clockWorker = null;
+  }
+};
+
+if (typeof document !== "undefined") {
+  document.addEventListener("visibilitychange", updateClockWorker);
+}
+
+/**
+ * requestAnimationFrame that keeps running while the tab is hidden.
+ * Browsers stop animation frames in background tabs and slow their timers
+ * down, so hidden frames come from a worker's timer instead, every
+ * BACKGROUND_FRAME_INTERVAL.
+ * @returns Cancels the frame
+ */
+export const requestFrame = (callback: (now: number) => void): (() => void) => {
+  let animationId = 0;
+  const run = () => {
+    if (!waiting.delete(run)) return;
+    cancelAnimationFrame(animationId);
+    callback(performance.now());
+  };
+
+  waiting.add(run);
+  animationId = requestAnimationFrame(run);
+  updateClockWorker();
+
+  return () => {
+    waiting.delete(run);
+    cancelAnimationFrame(animationId);
+    updateClockWorker();
+  };
+};
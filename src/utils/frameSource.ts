@@ -0,0 +1,37 @@
+import type { FrameSource } from "../types/InputSource";
+
+/**
+ * Pixel size of the source's frames, 0 until they are known
+ */
+export const getFrameSize = (source: FrameSource) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+
+/**
+ * Whether there's a frame to draw or detect on
+ */
+export const isFrameReady = (source: FrameSource) =>
+  source instanceof HTMLVideoElement
+    ? source.readyState >= 2
+    : source.complete && source.naturalWidth > 0;
+
+/**
+ * A photo only needs detecting once, video frames keep changing
+ */
+export const isStillFrame = (source: FrameSource): source is HTMLImageElement =>
+  source instanceof HTMLImageElement;
+
+/**
+ * Calls back whenever the source's frame size may have changed
+ * @returns Unsubscribe function
+ */
+export const onFrameSizeChange = (
+  source: FrameSource,
+  callback: () => void
+) => {
+  const events = isStillFrame(source) ? ["load"] : ["loadedmetadata", "resize"];
+  events.forEach((event) => source.addEventListener(event, callback));
+  return () =>
+    events.forEach((event) => source.removeEventListener(event, callback));
+};
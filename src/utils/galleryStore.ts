@@ -0,0 +1,130 @@
+import type { GalleryItem } from "../types/Gallery";
+import { createAppError, ERROR_CODES } from "./errorHandling";
+import { GALLERY_OPTIONS } from "../constants";
+
+const DATABASE_VERSION = 1;
+// Capture metadata and thumbnails, small enough to list in one go
+const ITEMS_STORE = "captures";
+// Full size media keyed by capture id
+const MEDIA_STORE = "media";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+
+      const request = indexedDB.open(
+        GALLERY_OPTIONS.databaseName,
+        DATABASE_VERSION
+      );
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(ITEMS_STORE)) {
+          database.createObjectStore(ITEMS_STORE, { keyPath: "id" });
+        }
+        if (!database.objectStoreNames.contains(MEDIA_STORE)) {
+          database.createObjectStore(MEDIA_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Let the next call try again
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+// Runs a gallery operation, reporting failures as storage errors
+const withStore = async <T>(
+  action: string,
+  run: (database: IDBDatabase) => Promise<T>
+): Promise<T> => {
+  try {
+    return await run(await openDatabase());
+  } catch (error) {
+    throw createAppError(`Could not ${action}`, {
+      code: ERROR_CODES.STORAGE_FAILED,
+      context: { action },
+      originalError: error instanceof Error ? error : undefined,
+    });
+  }
+};
+
+/**
+ * Stores a capture and its media in one transaction
+ */
+export const saveCapture = (item: GalleryItem, media: Blob) =>
+  withStore("save the capture", async (database) => {
+    const transaction = database.transaction(
+      [ITEMS_STORE, MEDIA_STORE],
+      "readwrite"
+    );
+    transaction.objectStore(ITEMS_STORE).put(item);
+    transaction.objectStore(MEDIA_STORE).put(media, item.id);
+    await transactionDone(transaction);
+  });
+
+/**
+ * Every capture, newest first
+ */
+export const listCaptures = () =>
+  withStore("load the gallery", async (database) => {
+    const items = await toPromise<GalleryItem[]>(
+      database
+        .transaction(ITEMS_STORE, "readonly")
+        .objectStore(ITEMS_STORE)
+        .getAll()
+    );
+    return items.sort((a, b) => b.createdAt - a.createdAt);
+  });
+
+/**
+ * Full size media for a capture
+ */
+export const getCaptureMedia = (id: string) =>
+  withStore("load the capture", async (database) => {
+    const media = await toPromise<Blob | undefined>(
+      database
+        .transaction(MEDIA_STORE, "readonly")
+        .objectStore(MEDIA_STORE)
+        .get(id)
+    );
+    if (!media) {
+      throw new Error(`Capture ${id} has no media`);
+    }
+    return media;
+  });
+
+export const deleteCaptures = (ids: string[]) =>
+  withStore("delete captures", async (database) => {
+    const transaction = database.transaction(
+      [ITEMS_STORE, MEDIA_STORE],
+      "readwrite"
+    );
+    ids.forEach((id) => {
+      transaction.objectStore(ITEMS_STORE).delete(id);
+      transaction.objectStore(MEDIA_STORE).delete(id);
+    });
+    await transactionDone(transaction);
+  });
@@ -0,0 +1,261 @@
+import { ByteWriter } from "./byteWriter";
+
+const MAX_CODE = 4096; // GIF LZW codes are at most 12 bits
+
+/**
+ * Picks a palette for a set of frames with median cut. Pixels are sampled
+ * from every frame, so all frames share one palette and colours don't
+ * flicker between frames.
+ * @returns Packed RGB colours, three bytes each
+ */
+export const quantize = (
+  frames: Uint8ClampedArray[],
+  maxColors: number,
+  sampleCount: number
+): Uint8Array => {
+  const pixelCount = frames.reduce((sum, frame) => sum + frame.length / 4, 0);
+  const step = Math.max(1, Math.floor(pixelCount / sampleCount));
+
+  const samples: number[] = [];
+  frames.forEach((frame) => {
+    for (let i = 0; i < frame.length; i += step * 4) {
+      samples.push(frame[i], frame[i + 1], frame[i + 2]);
+    }
+  });
+  const colors = new Uint8Array(samples);
+
+  // A box of sample indices, with the channel it would be split along
+  const createBox = (indices: Uint32Array) => {
+    let channel = 0;
+    let range = -1;
+    for (let c = 0; c < 3; c++) {
+      let min = 255;
+      let max = 0;
+      indices.forEach((index) => {
+        const value = colors[index * 3 + c];
+        if (value < min) min = value;
+        if (value > max) max = value;
+      });
+      if (max - min > range) {
+        range = max - min;
+        channel = c;
+      }
+    }
+    // Split boxes with the most spread first, weighted by pixel count
+    const score = indices.length > 1 ? range * Math.sqrt(indices.length) : 0;
+    return { indices, channel, score };
+  };
+
+  const boxes = [
+    createBox(Uint32Array.from({ length: colors.length / 3 }, (_, i) => i)),
+  ];
+
+  while (boxes.length < maxColors) {
+    const target = boxes.reduce(
+      (best, box, i) => (box.score > boxes[best].score ? i : best),
+      0
+    );
+    const { indices, channel, score } = boxes[target];
+    if (score === 0) break;
+
+    indices.sort((a, b) => colors[a * 3 + channel] - colors[b * 3 + channel]);
+    const median = indices.length >> 1;
+    boxes.splice(
+      target,
+      1,
+      createBox(indices.slice(0, median)),
+      createBox(indices.slice(median))
+    );
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach(({ indices }, i) => {
+    const sum = [0, 0, 0];
+    indices.forEach((index) => {
+      sum[0] += colors[index * 3];
+      sum[1] += colors[index * 3 + 1];
+      sum[2] += colors[index * 3 + 2];
+    });
+    for (let c = 0; c < 3; c++) {
+      palette[i * 3 + c] = Math.round(sum[c] / Math.max(1, indices.length));
+    }
+  });
+  return palette;
+};
+
+/**
+ * Maps RGBA pixels to their nearest palette entry. Lookups are cached on
+ * 15-bit colour, which is plenty for a 256 colour palette.
+ */
+const createIndexer = (palette: Uint8Array) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  const paletteSize = palette.length / 3;
+
+  return (frame: Uint8ClampedArray) => {
+    const indices = new Uint8Array(frame.length / 4);
+    for (let p = 0; p < indices.length; p++) {
+      const r = frame[p * 4];
+      const g = frame[p * 4 + 1];
+      const b = frame[p * 4 + 2];
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+      let index = cache[key];
+      if (index < 0) {
+        let bestDistance = Infinity;
+        for (let i = 0; i < paletteSize; i++) {
+          const dr = palette[i * 3] - r;
+          const dg = palette[i * 3 + 1] - g;
+          const db = palette[i * 3 + 2] - b;
+          const distance = dr * dr + dg * dg + db * db;
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            index = i;
+          }
+        }
+        cache[key] = index;
+      }
+      indices[p] = index;
+    }
+    return indices;
+  };
+};
+
+/**
+ * GIF flavoured LZW: variable code width from minCodeSize + 1 up to 12
+ * bits, with a clear code whenever the table fills up
+ */
+const writeLzw = (
+  writer: ByteWriter,
+  indices: Uint8Array,
+  minCodeSize: number
+) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  // Code for (prefix code, next index), -1 when not in the table yet
+  const table = new Int16Array(MAX_CODE << 8).fill(-1);
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const data = new ByteWriter();
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      data.byte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  // Widen codes once the decoder's table reaches the current width
+  const emitAndGrow = (code: number) => {
+    emit(code);
+    if (nextCode >= 1 << codeSize && codeSize < 12) codeSize++;
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table[key];
+    if (code >= 0) {
+      prefix = code;
+      continue;
+    }
+
+    emitAndGrow(prefix);
+    if (nextCode < MAX_CODE) {
+      table[key] = nextCode++;
+    } else {
+      emit(clearCode);
+      table.fill(-1);
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = index;
+  }
+  emitAndGrow(prefix);
+  emit(endCode);
+  if (bitCount > 0) data.byte(bitBuffer & 0xff);
+
+  // Image data goes out in sub-blocks of up to 255 bytes
+  const bytes = data.toBytes();
+  writer.byte(minCodeSize);
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.subarray(i, i + 255);
+    writer.byte(block.length);
+    writer.bytes(block);
+  }
+  writer.byte(0);
+};
+
+/**
+ * Encodes RGBA frames as a looping GIF89a with one global palette
+ * @param delay Milliseconds per frame, GIF stores hundredths of a second
+ * @param onProgress Called with 0-1 as frames are encoded
+ */
+export const encodeGif = (
+  frames: Uint8ClampedArray[],
+  width: number,
+  height: number,
+  delay: number,
+  options: {
+    maxColors: number;
+    paletteSamples: number;
+    onProgress?: (progress: number) => void;
+  }
+): Uint8Array => {
+  const palette = quantize(frames, options.maxColors, options.paletteSamples);
+  const toIndices = createIndexer(palette);
+
+  // Colour tables hold a power of two entries, at least 4
+  const tableBits = Math.max(
+    2,
+    Math.ceil(Math.log2(Math.max(2, palette.length / 3)))
+  );
+  const colorTable = new Uint8Array(3 << tableBits);
+  colorTable.set(palette);
+
+  const writer = new ByteWriter();
+  writer.ascii("GIF89a");
+
+  // Logical screen descriptor with the global colour table
+  writer.u16le(width);
+  writer.u16le(height);
+  writer.byte(0x80 | (7 << 4) | (tableBits - 1));
+  writer.byte(0); // Background colour
+  writer.byte(0); // Pixel aspect ratio
+  writer.bytes(colorTable);
+
+  // Loop forever
+  writer.bytes([0x21, 0xff, 0x0b]);
+  writer.ascii("NETSCAPE2.0");
+  writer.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  options.onProgress?.(0.1);
+
+  frames.forEach((frame, i) => {
+    // Graphic control extension: frame delay, keep the previous frame
+    writer.bytes([0x21, 0xf9, 0x04, 0x04]);
+    writer.u16le(Math.max(2, Math.round(delay / 10)));
+    writer.bytes([0x00, 0x00]);
+
+    // Image descriptor covering the whole canvas
+    writer.byte(0x2c);
+    writer.u16le(0);
+    writer.u16le(0);
+    writer.u16le(width);
+    writer.u16le(height);
+    writer.byte(0);
+
+    writeLzw(writer, toIndices(frame), Math.max(2, tableBits));
+    options.onProgress?.(0.1 + (0.9 * (i + 1)) / frames.length);
+  });
+
+  writer.byte(0x3b);
+  return writer.toBytes();
+};
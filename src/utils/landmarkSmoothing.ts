@@ -0,0 +1,282 @@
+import type {
+  FaceDetectionWithLandmarks,
+  FaceSnapshot,
+} from "../types/FaceDetection";
+import { fromFaceSnapshot, toFaceSnapshot } from "./faceData";
+
+export interface OneEuroParams {
+  /** Cutoff frequency (Hz) when still - lower means steadier but laggier */
+  minCutoff: number;
+  /** Speed coefficient - higher means less lag during fast movement */
+  beta: number;
+  /** Cutoff frequency (Hz) for the derivative estimate */
+  dCutoff: number;
+}
+
+export interface SmoothingOptions {
+  enabled: boolean;
+  landmarks: OneEuroParams;
+  pose: OneEuroParams;
+  interpolate: boolean;
+  maxInterpolationMs: number;
+}
+
+const smoothingFactor = (elapsedSeconds: number, cutoff: number) => {
+  const r = 2 * Math.PI * cutoff * elapsedSeconds;
+  return r / (r + 1);
+};
+
+/**
+ * One-Euro filter (Casiez et al. 2012): an adaptive low-pass filter that
+ * removes jitter when a signal is slow and reduces lag when it moves fast
+ */
+export class OneEuroFilter {
+  private previousValue: number | null = null;
+  private previousDerivative = 0;
+  private previousTime = 0;
+  private params: OneEuroParams;
+
+  constructor(params: OneEuroParams) {
+    this.params = params;
+  }
+
+  filter(value: number, timestamp: number): number {
+    if (this.previousValue === null) {
+      this.previousValue = value;
+      this.previousTime = timestamp;
+      return value;
+    }
+
+    const elapsed = Math.max((timestamp - this.previousTime) / 1000, 1e-3);
+    const derivative = (value - this.previousValue) / elapsed;
+    const alphaDerivative = smoothingFactor(elapsed, this.params.dCutoff);
+    const smoothedDerivative =
+      alphaDerivative * derivative +
+      (1 - alphaDerivative) * this.previousDerivative;
+
+    const cutoff =
+      this.params.minCutoff + this.params.beta * Math.abs(smoothedDerivative);
+    const alpha = smoothingFactor(elapsed, cutoff);
+    const result = alpha * value + (1 - alpha) * this.previousValue;
+
+    this.previousValue = result;
+    this.previousDerivative = smoothedDerivative;
+    this.previousTime = timestamp;
+    return result;
+  }
+
+  reset() {
+    this.previousValue = null;
+    this.previousDerivative = 0;
+  }
+}
+
+/**
+ * Smooths rotation angles, unwrapping them first so a jump across ±PI does
+ * not get filtered as a full turn
+ */
+export class PoseSmoother {
+  private filters: OneEuroFilter[];
+  private previous: number[] | null = null;
+
+  constructor(params: OneEuroParams) {
+    this.filters = [0, 1, 2].map(() => new OneEuroFilter(params));
+  }
+
+  filter(
+    rotation: { x: number; y: number; z: number },
+    timestamp: number
+  ): { x: number; y: number; z: number } {
+    const angles = [rotation.x, rotation.y, rotation.z].map((angle, i) => {
+      if (!this.previous) return angle;
+      let delta = angle - this.previous[i];
+      delta -= Math.round(delta / (2 * Math.PI)) * 2 * Math.PI;
+      return this.previous[i] + delta;
+    });
+
+    const smoothed = angles.map((angle, i) =>
+      this.filters[i].filter(angle, timestamp)
+    );
+    this.previous = smoothed;
+    return { x: smoothed[0], y: smoothed[1], z: smoothed[2] };
+  }
+
+  reset() {
+    this.previous = null;
+    this.filters.forEach((f) => f.reset());
+  }
+}
+
+// Flattened layout: score, box (4 values), then x/y for every landmark
+const flatten = (face: FaceSnapshot): number[] => {
+  const values = [
+    face.score,
+    face.box.x,
+    face.box.y,
+    face.box.width,
+    face.box.height,
+  ];
+  face.points.forEach((p) => values.push(p.x, p.y));
+  return values;
+};
+
+const unflatten = (
+  values: number[],
+  imageWidth: number,
+  imageHeight: number
+): FaceSnapshot => {
+  const points: FaceSnapshot["points"] = [];
+  for (let i = 5; i < values.length; i += 2) {
+    points.push({ x: values[i], y: values[i + 1] });
+  }
+  return {
+    score: values[0],
+    box: { x: values[1], y: values[2], width: values[3], height: values[4] },
+    points,
+    imageWidth,
+    imageHeight,
+  };
+};
+
+const boxCenter = (face: FaceSnapshot) => ({
+  x: face.box.x + face.box.width / 2,
+  y: face.box.y + face.box.height / 2,
+});
+
+/**
+ * Temporal state for one tracked face
+ */
+class FaceTrack {
+  private filters: OneEuroFilter[] = [];
+  private from: number[] = [];
+  private to: number[] = [];
+  private updatedAt = 0;
+  private interval = 0;
+  imageWidth = 0;
+  imageHeight = 0;
+  latest: FaceSnapshot;
+  private options: SmoothingOptions;
+
+  constructor(
+    face: FaceSnapshot,
+    timestamp: number,
+    options: SmoothingOptions
+  ) {
+    this.options = options;
+    this.latest = face;
+    this.update(face, timestamp);
+  }
+
+  update(face: FaceSnapshot, timestamp: number) {
+    const raw = flatten(face);
+    if (this.filters.length !== raw.length) {
+      this.filters = raw.map(() => new OneEuroFilter(this.options.landmarks));
+    }
+
+    // Start the next interpolation leg from wherever we are now, so the
+    // rendered pose never jumps when a new detection arrives
+    const current = this.to.length ? this.sampleValues(timestamp) : null;
+    this.to = raw.map((value, i) => this.filters[i].filter(value, timestamp));
+    this.from = current ?? this.to;
+
+    this.interval = this.updatedAt
+      ? Math.min(timestamp - this.updatedAt, this.options.maxInterpolationMs)
+      : 0;
+    this.updatedAt = timestamp;
+    this.imageWidth = face.imageWidth;
+    this.imageHeight = face.imageHeight;
+    this.latest = face;
+  }
+
+  private sampleValues(timestamp: number): number[] {
+    if (!this.options.interpolate || this.interval <= 0) return this.to;
+
+    const t = Math.min(
+      Math.max((timestamp - this.updatedAt) / this.interval, 0),
+      1
+    );
+    return this.to.map((value, i) => this.from[i] + (value - this.from[i]) * t);
+  }
+
+  sample(timestamp: number): FaceSnapshot {
+    return unflatten(
+      this.sampleValues(timestamp),
+      this.imageWidth,
+      this.imageHeight
+    );
+  }
+}
+
+/**
+ * Sits between useFaceDetection and the overlays: each new detection batch
+ * is filtered per landmark, and render loops sample an interpolated result
+ * every frame instead of snapping to each detection.
+ */
+export class DetectionSmoother {
+  private tracks: FaceTrack[] = [];
+  private latest: FaceDetectionWithLandmarks[] | null = null;
+  private options: SmoothingOptions;
+
+  constructor(options: SmoothingOptions) {
+    this.options = options;
+  }
+
+  setOptions(options: SmoothingOptions) {
+    this.options = options;
+    this.tracks = [];
+  }
+
+  /**
+   * Feeds a new detection batch. Faces are matched to existing tracks by
+   * nearest box centre so filter state follows the same person.
+   */
+  update(detections: FaceDetectionWithLandmarks[] | null, timestamp: number) {
+    this.latest = detections;
+    if (!this.options.enabled) return;
+
+    const faces = (detections ?? []).map(toFaceSnapshot);
+    const unmatched = [...this.tracks];
+    const nextTracks: FaceTrack[] = [];
+
+    faces.forEach((face) => {
+      const center = boxCenter(face);
+      let bestIndex = -1;
+      let bestDistance = Infinity;
+
+      unmatched.forEach((track, index) => {
+        const trackCenter = boxCenter(track.latest);
+        const distance = Math.hypot(
+          trackCenter.x - center.x,
+          trackCenter.y - center.y
+        );
+        // Only follow a track if the face moved less than its own width
+        if (distance < track.latest.box.width && distance < bestDistance) {
+          bestDistance = distance;
+          bestIndex = index;
+        }
+      });
+
+      if (bestIndex >= 0) {
+        const [track] = unmatched.splice(bestIndex, 1);
+        track.update(face, timestamp);
+        nextTracks.push(track);
+      } else {
+        nextTracks.push(new FaceTrack(face, timestamp, this.options));
+      }
+    });
+
+    this.tracks = nextTracks;
+  }
+
+  /**
+   * Returns the smoothed detections for a render frame
+   */
+  sample(timestamp: number): FaceDetectionWithLandmarks[] | null {
+    if (!this.options.enabled) return this.latest;
+    if (!this.latest) return null;
+
+    return this.tracks.map((track) =>
+      fromFaceSnapshot(track.sample(timestamp))
+    );
+  }
+}
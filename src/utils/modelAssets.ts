@@ -0,0 +1,97 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import type { FilterModelAsset } from "../types/Filter";
+import { FilterModels } from "./FilterModels";
+import { MODEL_CACHE_SIZE } from "../constants";
+
+interface CachedAsset {
+  scene: Promise<THREE.Group>;
+  users: number;
+}
+
+const loader = new GLTFLoader();
+// In order of use, least recent first
+const assetCache = new Map<string, CachedAsset>();
+
+// Drop the least recently used scenes nobody holds, beyond MODEL_CACHE_SIZE
+const evictUnusedModels = () => {
+  const unused = [...assetCache].filter(([, cached]) => cached.users <= 0);
+  unused
+    .slice(0, Math.max(0, unused.length - MODEL_CACHE_SIZE))
+    .forEach(([url]) => assetCache.delete(url));
+};
+
+/**
+ * Loads a filter's glTF asset, sharing one download and one parsed scene
+ * between all users of the same URL. The scene stays cached after its
+ * last user, so rebuilding the overlay doesn't download it again. Every
+ * successful call must be balanced by disposeFilterModel() on the
+ * returned model.
+ */
+export const loadFilterModel = async (
+  asset: FilterModelAsset
+): Promise<THREE.Group> => {
+  let cached = assetCache.get(asset.url);
+  if (!cached) {
+    const entry: CachedAsset = {
+      scene: loader.loadAsync(asset.url).then((gltf) => gltf.scene),
+      users: 0,
+    };
+    assetCache.set(asset.url, entry);
+    // Let the next request retry a failed download
+    entry.scene.catch(() => {
+      if (assetCache.get(asset.url) === entry) assetCache.delete(asset.url);
+    });
+    cached = entry;
+  } else {
+    assetCache.delete(asset.url);
+    assetCache.set(asset.url, cached);
+  }
+
+  // Count the user before waiting so a concurrent release can't dispose
+  // the scene this call is about to clone
+  cached.users++;
+  let scene: THREE.Group;
+  try {
+    scene = await cached.scene;
+  } catch (error) {
+    cached.users--;
+    throw error;
+  }
+
+  // Clones share geometry and materials with the cached scene
+  const content = scene.clone();
+  content.scale.setScalar(asset.scale ?? 1);
+  content.position.set(...(asset.position ?? [0, 0, 0]));
+  content.rotation.set(...(asset.rotation ?? [0, 0, 0]));
+
+  const model = new THREE.Group();
+  model.add(content);
+  model.userData.assetUrl = asset.url;
+  console.log(`📦 Loaded filter model: ${asset.url}`);
+
+  return model;
+};
+
+/**
+ * Releases a filter model. Procedural models are disposed straight away.
+ * Loaded assets free their GPU resources when their last user lets go,
+ * keeping the parsed scene cached; three.js uploads it again when a later
+ * clone is drawn.
+ */
+export const disposeFilterModel = (model: THREE.Group) => {
+  const url: string | undefined = model.userData.assetUrl;
+  if (!url) {
+    FilterModels.dispose(model);
+    return;
+  }
+
+  const cached = assetCache.get(url);
+  if (!cached) return;
+
+  cached.users--;
+  if (cached.users <= 0) {
+    FilterModels.dispose(model);
+    evictUnusedModels();
+  }
+};
@@ -0,0 +1,147 @@
+export interface PerformanceTier {
+  name: "low" | "medium" | "high" | "ultra";
+  label: string;
+  inputSize: number;
+  detectionFrequency: number;
+  maxFaces: number;
+  maxPixelRatio: number;
+  antialias: boolean;
+}
+
+export interface GovernorOptions {
+  targetFps: number;
+  evaluationInterval: number;
+  downgradeThreshold: number;
+  upgradeThreshold: number;
+  upgradeStreak: number;
+}
+
+export interface PerformanceStats {
+  fps: number;
+  detectionLatency: number;
+}
+
+/**
+ * Picks the tier closest to what detectPerformanceSettings() suggests
+ */
+export const getInitialTierIndex = (
+  tiers: PerformanceTier[],
+  settings: { detectionFrequency: number; inputSize: number }
+): number => {
+  let bestIndex = 0;
+  let bestScore = Infinity;
+
+  tiers.forEach((tier, index) => {
+    const score =
+      Math.abs(tier.inputSize - settings.inputSize) / settings.inputSize +
+      Math.abs(tier.detectionFrequency - settings.detectionFrequency) /
+        settings.detectionFrequency;
+    if (score < bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+
+  return bestIndex;
+};
+
+/**
+ * Tracks render frame rate and detection latency and decides when to step
+ * between performance tiers. Downgrades happen as soon as a measurement
+ * window misses the target; upgrades need a streak of good windows so the
+ * governor does not oscillate between two tiers.
+ */
+export class PerformanceGovernor {
+  private frameCount = 0;
+  private windowStart = 0;
+  private latencyTotal = 0;
+  private latencyCount = 0;
+  private goodStreak = 0;
+  private options: GovernorOptions;
+  private tiers: PerformanceTier[];
+  tierIndex: number;
+  stats: PerformanceStats = { fps: 0, detectionLatency: 0 };
+
+  constructor(
+    tiers: PerformanceTier[],
+    initialTierIndex: number,
+    options: GovernorOptions
+  ) {
+    this.tiers = tiers;
+    this.tierIndex = initialTierIndex;
+    this.options = options;
+  }
+
+  get tier(): PerformanceTier {
+    return this.tiers[this.tierIndex];
+  }
+
+  recordFrame(timestamp: number) {
+    if (this.windowStart === 0) this.windowStart = timestamp;
+    this.frameCount++;
+  }
+
+  recordDetection(latencyMs: number) {
+    this.latencyTotal += latencyMs;
+    this.latencyCount++;
+  }
+
+  /**
+   * Closes the current measurement window
+   * @returns True if the tier changed
+   */
+  evaluate(timestamp: number): boolean {
+    const elapsed = timestamp - this.windowStart;
+    if (this.windowStart === 0 || elapsed <= 0) return false;
+
+    // A stalled window (e.g. a background tab) says nothing about load
+    if (elapsed > this.options.evaluationInterval * 3) {
+      this.resetWindow(timestamp);
+      return false;
+    }
+
+    const fps = (this.frameCount * 1000) / elapsed;
+    const detectionLatency = this.latencyCount
+      ? this.latencyTotal / this.latencyCount
+      : 0;
+    this.stats = { fps, detectionLatency };
+    this.resetWindow(timestamp);
+
+    const { targetFps, downgradeThreshold, upgradeThreshold, upgradeStreak } =
+      this.options;
+
+    // Detection that takes longer than its interval can never keep up
+    const detectionOverloaded = detectionLatency > this.tier.detectionFrequency;
+
+    if (
+      (fps < targetFps * downgradeThreshold || detectionOverloaded) &&
+      this.tierIndex > 0
+    ) {
+      this.tierIndex--;
+      this.goodStreak = 0;
+      return true;
+    }
+
+    const nextTier = this.tiers[this.tierIndex + 1];
+    const hasHeadroom =
+      fps >= targetFps * upgradeThreshold &&
+      (!nextTier || detectionLatency < nextTier.detectionFrequency * 0.5);
+
+    this.goodStreak = hasHeadroom ? this.goodStreak + 1 : 0;
+
+    if (nextTier && this.goodStreak >= upgradeStreak) {
+      this.tierIndex++;
+      this.goodStreak = 0;
+      return true;
+    }
+
+    return false;
+  }
+
+  private resetWindow(timestamp: number) {
+    this.frameCount = 0;
+    this.windowStart = timestamp;
+    this.latencyTotal = 0;
+    this.latencyCount = 0;
+  }
+}
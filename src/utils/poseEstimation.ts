@@ -0,0 +1,259 @@
+import * as THREE from "three";
+
+/**
+ * Canonical 3D face model (millimetres, origin at the nose tip, X towards
+ * the image right, Y up, Z out of the face) keyed by 68-point landmark index.
+ * Proportions follow the generic head model commonly used for PnP head pose.
+ */
+export const CANONICAL_FACE_POINTS: Record<number, [number, number, number]> = {
+  0: [-70, 25, -95], // Jaw, level with the right ear
+  16: [70, 25, -95], // Jaw, level with the left ear
+  8: [0, -66, -13], // Chin
+  27: [0, 38, -20], // Nose bridge
+  30: [0, 0, 0], // Nose tip
+  33: [0, -12, -10], // Nose base
+  36: [-45, 34, -27], // Right eye outer corner
+  39: [-15, 33, -24], // Right eye inner corner
+  42: [15, 33, -24], // Left eye inner corner
+  45: [45, 34, -27], // Left eye outer corner
+  48: [-30, -30, -25], // Right mouth corner
+  54: [30, -30, -25], // Left mouth corner
+};
+
+// Distance between the outer eye corners of the canonical model
+export const CANONICAL_EYE_DISTANCE = 90;
+
+const MODEL_INDICES = Object.keys(CANONICAL_FACE_POINTS).map(Number);
+const MODEL_POINTS = MODEL_INDICES.map(
+  (index) => new THREE.Vector3(...CANONICAL_FACE_POINTS[index])
+);
+
+// Rotation that turns the model (Y up, Z forward) to face the camera
+// (Y down, Z into the scene); also the axis flip between camera and Three.js
+const CAMERA_FLIP = new THREE.Matrix4().makeScale(1, -1, -1);
+const FACING_CAMERA = new THREE.Quaternion().setFromRotationMatrix(CAMERA_FLIP);
+
+export interface CameraIntrinsics {
+  focalLength: number;
+  centerX: number;
+  centerY: number;
+}
+
+export interface HeadPose {
+  /** Rotation from model space to camera space (X right, Y down, Z forward) */
+  quaternion: THREE.Quaternion;
+  /** Model origin (nose tip) in camera space, millimetres */
+  translation: THREE.Vector3;
+  /** Mean reprojection error in pixels */
+  error: number;
+}
+
+const project = (
+  point: THREE.Vector3,
+  quaternion: THREE.Quaternion,
+  translation: THREE.Vector3,
+  camera: CameraIntrinsics,
+  target: THREE.Vector3
+) => {
+  target.copy(point).applyQuaternion(quaternion).add(translation);
+  const z = Math.max(target.z, 1e-3);
+  return {
+    x: camera.centerX + (camera.focalLength * target.x) / z,
+    y: camera.centerY + (camera.focalLength * target.y) / z,
+  };
+};
+
+const residuals = (
+  imagePoints: { x: number; y: number }[],
+  quaternion: THREE.Quaternion,
+  translation: THREE.Vector3,
+  camera: CameraIntrinsics
+): number[] => {
+  const scratch = new THREE.Vector3();
+  const result: number[] = [];
+  MODEL_POINTS.forEach((point, i) => {
+    const projected = project(point, quaternion, translation, camera, scratch);
+    result.push(projected.x - imagePoints[i].x, projected.y - imagePoints[i].y);
+  });
+  return result;
+};
+
+// Solves the 6x6 system A x = b in place with partial pivoting
+const solveLinear = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+// Applies a [rx, ry, rz, tx, ty, tz] step (rotation vector in radians)
+const applyStep = (
+  quaternion: THREE.Quaternion,
+  translation: THREE.Vector3,
+  step: number[]
+) => {
+  const rotationVector = new THREE.Vector3(step[0], step[1], step[2]);
+  const angle = rotationVector.length();
+  const delta =
+    angle > 1e-12
+      ? new THREE.Quaternion().setFromAxisAngle(
+          rotationVector.divideScalar(angle),
+          angle
+        )
+      : new THREE.Quaternion();
+
+  return {
+    quaternion: delta.multiply(quaternion).normalize(),
+    translation: translation
+      .clone()
+      .add(new THREE.Vector3(step[3], step[4], step[5])),
+  };
+};
+
+const sumOfSquares = (values: number[]) =>
+  values.reduce((sum, value) => sum + value * value, 0);
+
+/**
+ * Initial guess from a frontal face at the depth implied by eye distance
+ */
+const initialPose = (
+  imagePoints: { x: number; y: number }[],
+  camera: CameraIntrinsics
+): Omit<HeadPose, "error"> => {
+  const rightEye = imagePoints[MODEL_INDICES.indexOf(36)];
+  const leftEye = imagePoints[MODEL_INDICES.indexOf(45)];
+  const noseTip = imagePoints[MODEL_INDICES.indexOf(30)];
+  const eyeDistance = Math.max(
+    Math.hypot(leftEye.x - rightEye.x, leftEye.y - rightEye.y),
+    1
+  );
+  const depth = (camera.focalLength * CANONICAL_EYE_DISTANCE) / eyeDistance;
+
+  return {
+    quaternion: FACING_CAMERA.clone(),
+    translation: new THREE.Vector3(
+      ((noseTip.x - camera.centerX) * depth) / camera.focalLength,
+      ((noseTip.y - camera.centerY) * depth) / camera.focalLength,
+      depth
+    ),
+  };
+};
+
+/**
+ * Estimates head pose by fitting the canonical face model to 68-point
+ * landmarks: a Perspective-n-Point solve using Levenberg-Marquardt on the
+ * reprojection error.
+ * @param landmarks All 68 landmark positions in image pixels
+ * @param camera Pinhole intrinsics of the source video
+ * @param previous Last pose for this face, used to warm-start the solve
+ */
+export const estimateHeadPose = (
+  landmarks: { x: number; y: number }[],
+  camera: CameraIntrinsics,
+  previous?: HeadPose | null
+): HeadPose => {
+  const imagePoints = MODEL_INDICES.map((index) => landmarks[index]);
+  const start =
+    previous && previous.translation.z > 0
+      ? {
+          quaternion: previous.quaternion.clone(),
+          translation: previous.translation.clone(),
+        }
+      : initialPose(imagePoints, camera);
+
+  let { quaternion, translation } = start;
+  let current = residuals(imagePoints, quaternion, translation, camera);
+  let cost = sumOfSquares(current);
+  let damping = 1e-3;
+
+  for (let iteration = 0; iteration < 15; iteration++) {
+    // Numeric Jacobian of the residuals with respect to the 6 pose params
+    const jacobian: number[][] = [];
+    for (let param = 0; param < 6; param++) {
+      const epsilon = param < 3 ? 1e-4 : 1e-2;
+      const step = [0, 0, 0, 0, 0, 0];
+      step[param] = epsilon;
+      const moved = applyStep(quaternion, translation, step);
+      const shifted = residuals(
+        imagePoints,
+        moved.quaternion,
+        moved.translation,
+        camera
+      );
+      jacobian.push(shifted.map((value, i) => (value - current[i]) / epsilon));
+    }
+
+    // Normal equations (J^T J + damping * diag) step = -J^T r
+    const normal = jacobian.map((row) =>
+      jacobian.map((other) =>
+        row.reduce((sum, value, i) => sum + value * other[i], 0)
+      )
+    );
+    const gradient = jacobian.map((row) =>
+      row.reduce((sum, value, i) => sum - value * current[i], 0)
+    );
+    normal.forEach((row, i) => (row[i] *= 1 + damping));
+
+    const step = solveLinear(normal, gradient);
+    if (!step || step.some((value) => !Number.isFinite(value))) break;
+
+    const candidate = applyStep(quaternion, translation, step);
+    const candidateResiduals = residuals(
+      imagePoints,
+      candidate.quaternion,
+      candidate.translation,
+      camera
+    );
+    const candidateCost = sumOfSquares(candidateResiduals);
+
+    if (candidateCost < cost && candidate.translation.z > 0) {
+      const improvement = cost - candidateCost;
+      ({ quaternion, translation } = candidate);
+      current = candidateResiduals;
+      cost = candidateCost;
+      damping = Math.max(damping / 10, 1e-7);
+      if (improvement < 1e-6 * cost) break;
+    } else {
+      damping *= 10;
+      if (damping > 1e6) break;
+    }
+  }
+
+  return {
+    quaternion,
+    translation,
+    error: Math.sqrt(cost / MODEL_POINTS.length),
+  };
+};
+
+/**
+ * Converts a camera-space pose to Three.js axes (Y up, Z towards the viewer)
+ */
+export const toSceneRotation = (pose: HeadPose): THREE.Quaternion => {
+  const rotation = new THREE.Matrix4().makeRotationFromQuaternion(
+    pose.quaternion
+  );
+  return new THREE.Quaternion().setFromRotationMatrix(
+    CAMERA_FLIP.clone().multiply(rotation)
+  );
+};
@@ -0,0 +1,66 @@
+import type { CaptureKind } from "../types/Gallery";
+import { GALLERY_OPTIONS } from "../constants";
+
+// First frame of a recorded video, ready to draw
+const loadVideoFrame = (blob: Blob) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error("Could not read recorded video"));
+    };
+    video.src = URL.createObjectURL(blob);
+  });
+
+/**
+ * Scales a capture down to a small JPEG for the gallery grid
+ * @returns The thumbnail and the capture's full size
+ */
+export const createThumbnail = async (
+  blob: Blob,
+  kind: CaptureKind
+): Promise<{ thumbnail: Blob; width: number; height: number }> => {
+  const source =
+    kind === "video"
+      ? await loadVideoFrame(blob)
+      : await createImageBitmap(blob);
+  const width =
+    source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const height =
+    source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+
+  try {
+    const scale = Math.min(
+      1,
+      GALLERY_OPTIONS.thumbnailSize / Math.max(width, height)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Could not get canvas context");
+    }
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    const thumbnail = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (result) =>
+          result ? resolve(result) : reject(new Error("Thumbnail failed")),
+        "image/jpeg",
+        GALLERY_OPTIONS.thumbnailQuality
+      )
+    );
+    return { thumbnail, width, height };
+  } finally {
+    if (source instanceof HTMLVideoElement) {
+      URL.revokeObjectURL(source.src);
+    } else {
+      source.close();
+    }
+  }
+};
@@ -0,0 +1,79 @@
+import type { WatermarkSettings } from "../types/Capture";
+import { PHOTO_CAPTURE_OPTIONS } from "../constants";
+
+/**
+ * Stamps the logo, or the text when there's no logo, into a corner of the
+ * context's canvas. Drawn unmirrored so it always reads the right way round.
+ */
+export const drawWatermark = (
+  ctx: CanvasRenderingContext2D,
+  settings: WatermarkSettings,
+  logo?: HTMLImageElement | null
+) => {
+  if (!logo && !settings.text.trim()) return;
+
+  const { width, height } = ctx.canvas;
+  const margin =
+    Math.min(width, height) * PHOTO_CAPTURE_OPTIONS.watermarkMargin;
+  const maxWidth = width * settings.size;
+
+  ctx.save();
+  ctx.globalAlpha = settings.opacity;
+
+  let markWidth: number;
+  let markHeight: number;
+  let draw: (x: number, y: number) => void;
+
+  if (logo) {
+    markWidth = maxWidth;
+    markHeight = (maxWidth * logo.naturalHeight) / logo.naturalWidth;
+    draw = (x, y) => ctx.drawImage(logo, x, y, markWidth, markHeight);
+  } else {
+    // Size the font so the text spans the requested width, within reason
+    ctx.font = "bold 100px sans-serif";
+    const fontSize = Math.min(
+      (100 * maxWidth) / ctx.measureText(settings.text).width,
+      height * 0.15
+    );
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.textBaseline = "top";
+    ctx.fillStyle = "white";
+    ctx.shadowColor = "rgba(0, 0, 0, 0.6)";
+    ctx.shadowBlur = fontSize * 0.1;
+    markWidth = ctx.measureText(settings.text).width;
+    markHeight = fontSize;
+    draw = (x, y) => ctx.fillText(settings.text, x, y);
+  }
+
+  const [vertical, horizontal] = settings.position.split("-");
+  draw(
+    horizontal === "left" ? margin : width - margin - markWidth,
+    vertical === "top" ? margin : height - margin - markHeight
+  );
+  ctx.restore();
+};
+
+/**
+ * Reads an uploaded logo and scales it down to a PNG data URL small enough
+ * to keep in localStorage
+ */
+export const createWatermarkLogo = async (file: File): Promise<string> => {
+  const image = await createImageBitmap(file);
+  try {
+    const scale = Math.min(
+      1,
+      PHOTO_CAPTURE_OPTIONS.maxLogoSize / Math.max(image.width, image.height)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Could not get canvas context");
+    }
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/png");
+  } finally {
+    image.close();
+  }
+};
@@ -0,0 +1,204 @@
+import { ByteWriter } from "./byteWriter";
+
+export type WebmCodec = "V_VP8" | "V_VP9";
+
+export interface WebmFrame {
+  data: Uint8Array;
+  timestamp: number; // ms from the start of the video
+  isKeyFrame: boolean;
+}
+
+interface WebmOptions {
+  codec: WebmCodec;
+  width: number;
+  height: number;
+  frameRate: number;
+  duration: number; // ms
+}
+
+// Element ids, written as is since they carry their own length marker
+const IDS = {
+  EBML: [0x1a, 0x45, 0xdf, 0xa3],
+  EBMLVersion: [0x42, 0x86],
+  EBMLReadVersion: [0x42, 0xf7],
+  EBMLMaxIDLength: [0x42, 0xf2],
+  EBMLMaxSizeLength: [0x42, 0xf3],
+  DocType: [0x42, 0x82],
+  DocTypeVersion: [0x42, 0x87],
+  DocTypeReadVersion: [0x42, 0x85],
+  Segment: [0x18, 0x53, 0x80, 0x67],
+  Info: [0x15, 0x49, 0xa9, 0x66],
+  TimecodeScale: [0x2a, 0xd7, 0xb1],
+  Duration: [0x44, 0x89],
+  MuxingApp: [0x4d, 0x80],
+  WritingApp: [0x57, 0x41],
+  Tracks: [0x16, 0x54, 0xae, 0x6b],
+  TrackEntry: [0xae],
+  TrackNumber: [0xd7],
+  TrackUID: [0x73, 0xc5],
+  TrackType: [0x83],
+  CodecID: [0x86],
+  DefaultDuration: [0x23, 0xe3, 0x83],
+  Video: [0xe0],
+  PixelWidth: [0xb0],
+  PixelHeight: [0xba],
+  Cluster: [0x1f, 0x43, 0xb6, 0x75],
+  Timecode: [0xe7],
+  SimpleBlock: [0xa3],
+};
+
+// Block timecodes are signed 16-bit offsets from their cluster
+const MAX_CLUSTER_SPAN = 30_000; // ms
+
+/**
+ * EBML variable-length size in the fewest bytes that fit
+ */
+const encodeSize = (size: number) => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+
+  const bytes = new Array<number>(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const encodeUint = (value: number) => {
+  const bytes: number[] = [];
+  let rest = value;
+  do {
+    bytes.unshift(rest % 256);
+    rest = Math.floor(rest / 256);
+  } while (rest > 0);
+  return bytes;
+};
+
+const encodeFloat = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const encodeString = (text: string) => {
+  const writer = new ByteWriter();
+  writer.ascii(text);
+  return writer.toBytes();
+};
+
+const element = (writer: ByteWriter, id: number[], data: ArrayLike<number>) => {
+  writer.bytes(id);
+  writer.bytes(encodeSize(data.length));
+  writer.bytes(data);
+};
+
+// Builds an element out of child elements
+const master = (id: number[], build: (writer: ByteWriter) => void) => {
+  const body = new ByteWriter();
+  build(body);
+  const writer = new ByteWriter();
+  element(writer, id, body.toBytes());
+  return writer.toBytes();
+};
+
+const writeCluster = (
+  writer: ByteWriter,
+  frames: WebmFrame[],
+  timecode: number
+) => {
+  writer.bytes(
+    master(IDS.Cluster, (cluster) => {
+      element(cluster, IDS.Timecode, encodeUint(timecode));
+      frames.forEach((frame) => {
+        const block = new ByteWriter();
+        block.byte(0x81); // Track 1
+        block.u16be((frame.timestamp - timecode) & 0xffff);
+        block.byte(frame.isKeyFrame ? 0x80 : 0);
+        block.bytes(frame.data);
+        element(cluster, IDS.SimpleBlock, block.toBytes());
+      });
+    })
+  );
+};
+
+/**
+ * Wraps encoded VP8/VP9 frames in a single-track WebM file. Every key
+ * frame starts a new cluster, so players can seek to it. The file has no
+ * cue index, which WebM players cope without.
+ * @param frames Encoded frames in decode order, starting with a key frame
+ */
+export const muxWebm = (
+  frames: WebmFrame[],
+  { codec, width, height, frameRate, duration }: WebmOptions
+): Uint8Array => {
+  const writer = new ByteWriter();
+
+  writer.bytes(
+    master(IDS.EBML, (header) => {
+      element(header, IDS.EBMLVersion, [1]);
+      element(header, IDS.EBMLReadVersion, [1]);
+      element(header, IDS.EBMLMaxIDLength, [4]);
+      element(header, IDS.EBMLMaxSizeLength, [8]);
+      element(header, IDS.DocType, encodeString("webm"));
+      element(header, IDS.DocTypeVersion, [2]);
+      element(header, IDS.DocTypeReadVersion, [2]);
+    })
+  );
+
+  writer.bytes(
+    master(IDS.Segment, (segment) => {
+      segment.bytes(
+        master(IDS.Info, (info) => {
+          element(info, IDS.TimecodeScale, encodeUint(1_000_000)); // 1ms
+          element(info, IDS.Duration, encodeFloat(duration));
+          element(info, IDS.MuxingApp, encodeString("ar-face-filter"));
+          element(info, IDS.WritingApp, encodeString("ar-face-filter"));
+        })
+      );
+
+      segment.bytes(
+        master(IDS.Tracks, (tracks) => {
+          tracks.bytes(
+            master(IDS.TrackEntry, (track) => {
+              element(track, IDS.TrackNumber, [1]);
+              element(track, IDS.TrackUID, [1]);
+              element(track, IDS.TrackType, [1]); // Video
+              element(track, IDS.CodecID, encodeString(codec));
+              element(
+                track,
+                IDS.DefaultDuration,
+                encodeUint(Math.round(1e9 / frameRate)) // ns
+              );
+              track.bytes(
+                master(IDS.Video, (video) => {
+                  element(video, IDS.PixelWidth, encodeUint(width));
+                  element(video, IDS.PixelHeight, encodeUint(height));
+                })
+              );
+            })
+          );
+        })
+      );
+
+      let cluster: WebmFrame[] = [];
+      let clusterTimecode = 0;
+      frames.forEach((frame) => {
+        const isFull = frame.timestamp - clusterTimecode >= MAX_CLUSTER_SPAN;
+        if (cluster.length > 0 && (frame.isKeyFrame || isFull)) {
+          writeCluster(segment, cluster, clusterTimecode);
+          cluster = [];
+        }
+        if (cluster.length === 0) clusterTimecode = frame.timestamp;
+        cluster.push(frame);
+      });
+      if (cluster.length > 0) {
+        writeCluster(segment, cluster, clusterTimecode);
+      }
+    })
+  );
+
+  return writer.toBytes();
+};
@@ -0,0 +1,130 @@
+import * as faceapi from "face-api.js";
+import type {
+  DetectionWorkerRequest,
+  DetectionWorkerResponse,
+  FaceDetectionWithLandmarks,
+} from "../types/FaceDetection";
+import type { FrameSource } from "../types/InputSource";
+import { deserializeFace } from "./faceData";
+import { WORKER_DETECTION_TIMEOUT } from "../constants";
+
+type DetectionWithExpressions =
+  faceapi.WithFaceExpressions<FaceDetectionWithLandmarks>;
+
+interface PendingRequest {
+  resolve: (detections: DetectionWithExpressions[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs face-api.js inside a Web Worker. Frames are sent as transferable
+ * ImageBitmaps and results come back as plain data, which is rebuilt into
+ * the same face-api.js objects the main-thread path produces.
+ */
+export class WorkerFaceDetector {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  /**
+   * Starts the worker and loads models inside it
+   * @param modelUrl Base URL of the face-api.js model files
+   */
+  load(modelUrl: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(
+        new URL("../workers/faceDetection.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+      this.worker = worker;
+
+      worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => {
+        const message = event.data;
+
+        switch (message.type) {
+          case "ready":
+            resolve();
+            break;
+
+          case "result": {
+            const request = this.pending.get(message.id);
+            this.pending.delete(message.id);
+            request?.resolve(message.faces.map(deserializeFace));
+            break;
+          }
+
+          case "error": {
+            const error = new Error(message.message);
+            if (message.id === undefined) {
+              reject(error);
+              return;
+            }
+            const request = this.pending.get(message.id);
+            this.pending.delete(message.id);
+            request?.reject(error);
+            break;
+          }
+        }
+      };
+
+      worker.onerror = (event) => {
+        const error = new Error(event.message || "Detection worker failed");
+        this.rejectAll(error);
+        reject(error);
+      };
+
+      this.post({ type: "init", modelUrl });
+    });
+  }
+
+  /**
+   * Grabs the current frame and detects faces in the worker. Rejects after
+   * WORKER_DETECTION_TIMEOUT, as a hung worker never answers.
+   */
+  async detect(
+    source: FrameSource,
+    options: { inputSize: number; scoreThreshold: number }
+  ): Promise<DetectionWithExpressions[]> {
+    if (!this.worker) {
+      throw new Error("Detection worker is not running");
+    }
+
+    const frame = await createImageBitmap(source);
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        if (this.pending.delete(id)) {
+          reject(new Error("Detection worker timed out"));
+        }
+      }, WORKER_DETECTION_TIMEOUT);
+
+      this.pending.set(id, {
+        resolve: (detections) => {
+          clearTimeout(timeoutId);
+          resolve(detections);
+        },
+        reject: (error) => {
+          clearTimeout(timeoutId);
+          reject(error);
+        },
+      });
+      this.post({ type: "detect", id, frame, ...options }, [frame]);
+    });
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectAll(new Error("Detection worker terminated"));
+  }
+
+  private post(message: DetectionWorkerRequest, transfer: Transferable[] = []) {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  private rejectAll(error: Error) {
+    this.pending.forEach((request) => request.reject(error));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,92 @@
+import { ByteWriter } from "./byteWriter";
+import { crc32 } from "./crc32";
+
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+  date: Date;
+}
+
+const UTF8_NAMES = 0x0800;
+
+// MS-DOS date and time, which zip entries are stamped with
+const toDosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+/**
+ * Bundles files into a zip archive. Entries are stored without compression,
+ * photos and videos are already compressed, and the original blobs are
+ * reused so large files aren't copied.
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const directory = new ByteWriter();
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(new Uint8Array(await entry.blob.arrayBuffer()));
+    const size = entry.blob.size;
+    const { time, date } = toDosDateTime(entry.date);
+
+    const header = new ByteWriter();
+    header.u32le(0x04034b50);
+    header.u16le(20); // Version needed
+    header.u16le(UTF8_NAMES);
+    header.u16le(0); // Stored
+    header.u16le(time);
+    header.u16le(date);
+    header.u32le(crc);
+    header.u32le(size); // Compressed size
+    header.u32le(size);
+    header.u16le(name.length);
+    header.u16le(0); // Extra field length
+    header.bytes(name);
+    const headerBytes = header.toBytes();
+
+    directory.u32le(0x02014b50);
+    directory.u16le(20); // Version made by
+    directory.u16le(20); // Version needed
+    directory.u16le(UTF8_NAMES);
+    directory.u16le(0);
+    directory.u16le(time);
+    directory.u16le(date);
+    directory.u32le(crc);
+    directory.u32le(size);
+    directory.u32le(size);
+    directory.u16le(name.length);
+    directory.u16le(0); // Extra field length
+    directory.u16le(0); // Comment length
+    directory.u16le(0); // Disk number
+    directory.u16le(0); // Internal attributes
+    directory.u32le(0); // External attributes
+    directory.u32le(offset);
+    directory.bytes(name);
+
+    parts.push(headerBytes, entry.blob);
+    offset += headerBytes.length + size;
+  }
+
+  const directoryBytes = directory.toBytes();
+  const end = new ByteWriter();
+  end.u32le(0x06054b50);
+  end.u16le(0); // This disk
+  end.u16le(0); // Disk with the directory
+  end.u16le(entries.length);
+  end.u16le(entries.length);
+  end.u32le(directoryBytes.length);
+  end.u32le(offset);
+  end.u16le(0); // Comment length
+
+  parts.push(directoryBytes, end.toBytes());
+  return new Blob(parts, { type: "application/zip" });
+};
@@ -0,0 +1,46 @@
+import type {
+  AnimationEncoderRequest,
+  AnimationEncoderResponse,
+} from "../types/Animation";
+import { encodeGif } from "../utils/gifEncoder";
+import { encodeApng } from "../utils/apngEncoder";
+import { ANIMATION_CAPTURE_OPTIONS } from "../constants";
+
+// Workers have no DOM, so this is the part of the worker scope we use
+const workerScope = self as unknown as {
+  postMessage: (
+    message: AnimationEncoderResponse,
+    transfer?: Transferable[]
+  ) => void;
+  onmessage: ((event: MessageEvent<AnimationEncoderRequest>) => void) | null;
+};
+
+workerScope.onmessage = async (event) => {
+  const message = event.data;
+  if (message.type !== "encode") return;
+
+  const { id, format, width, height, delay } = message;
+  const frames = message.frames.map((buffer) => new Uint8ClampedArray(buffer));
+  const onProgress = (progress: number) =>
+    workerScope.postMessage({ type: "progress", id, progress });
+
+  try {
+    const bytes =
+      format === "gif"
+        ? encodeGif(frames, width, height, delay, {
+            maxColors: ANIMATION_CAPTURE_OPTIONS.maxColors,
+            paletteSamples: ANIMATION_CAPTURE_OPTIONS.paletteSamples,
+            onProgress,
+          })
+        : await encodeApng(frames, width, height, delay, onProgress);
+
+    const data = bytes.buffer as ArrayBuffer;
+    workerScope.postMessage({ type: "done", id, data }, [data]);
+  } catch (error) {
+    workerScope.postMessage({
+      type: "error",
+      id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,111 @@
+import * as faceapi from "face-api.js";
+import type {
+  DetectionWorkerRequest,
+  DetectionWorkerResponse,
+} from "../types/FaceDetection";
+import { serializeFace } from "../utils/faceData";
+
+// Workers have no DOM, so this is the part of the worker scope we use
+const workerScope = self as unknown as {
+  postMessage: (message: DetectionWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<DetectionWorkerRequest>) => void) | null;
+};
+
+// Media element types face-api.js checks with instanceof, never constructed here
+class UnavailableMedia {}
+
+/**
+ * Points face-api.js at OffscreenCanvas instead of DOM elements
+ */
+const patchEnvironment = () => {
+  faceapi.env.setEnv({
+    Canvas: OffscreenCanvas,
+    CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D,
+    Image: UnavailableMedia,
+    ImageData,
+    Video: UnavailableMedia,
+    createCanvasElement: () => new OffscreenCanvas(1, 1),
+    createImageElement: () => {
+      throw new Error("Image elements are not available in workers");
+    },
+    fetch: (url: string, init?: RequestInit) => fetch(url, init),
+    readFile: () => {
+      throw new Error("readFile is not available in workers");
+    },
+  } as unknown as faceapi.Environment);
+};
+
+let canvas: OffscreenCanvas | null = null;
+
+const loadModels = async (modelUrl: string) => {
+  patchEnvironment();
+  await faceapi.loadTinyFaceDetectorModel(modelUrl);
+  await faceapi.loadFaceLandmarkModel(modelUrl);
+  await faceapi.loadFaceExpressionModel(modelUrl);
+};
+
+const detect = async (
+  frame: ImageBitmap,
+  inputSize: number,
+  scoreThreshold: number
+) => {
+  // Reuse one canvas and only resize it when the frame size changes
+  if (!canvas) {
+    canvas = new OffscreenCanvas(frame.width, frame.height);
+  } else if (canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+  }
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Could not get OffscreenCanvas context");
+  }
+  ctx.drawImage(frame, 0, 0);
+  frame.close();
+
+  const detections = await faceapi
+    .detectAllFaces(
+      canvas as unknown as HTMLCanvasElement,
+      new faceapi.TinyFaceDetectorOptions({ inputSize, scoreThreshold })
+    )
+    .withFaceLandmarks()
+    .withFaceExpressions();
+
+  return detections.map(serializeFace);
+};
+
+workerScope.onmessage = async (event) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case "init":
+      try {
+        await loadModels(message.modelUrl);
+        workerScope.postMessage({ type: "ready" });
+      } catch (error) {
+        workerScope.postMessage({
+          type: "error",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      break;
+
+    case "detect":
+      try {
+        const faces = await detect(
+          message.frame,
+          message.inputSize,
+          message.scoreThreshold
+        );
+        workerScope.postMessage({ type: "result", id: message.id, faces });
+      } catch (error) {
+        workerScope.postMessage({
+          type: "error",
+          id: message.id,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      break;
+  }
+};
@@ -0,0 +1,16 @@
+// Workers have no DOM, so this is the part of the worker scope we use
+const workerScope = self as unknown as {
+  postMessage: (message: "tick") => void;
+  onmessage: ((event: MessageEvent<{ interval: number }>) => void) | null;
+};
+
+let timerId: ReturnType<typeof setInterval> | undefined;
+
+// Timers in a worker keep their pace while the page's tab is hidden
+workerScope.onmessage = (event) => {
+  clearInterval(timerId);
+  timerId = setInterval(
+    () => workerScope.postMessage("tick"),
+    event.data.interval
+  );
+};